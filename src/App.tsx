@@ -1,11 +1,16 @@
 import React, { useMemo } from "react";
 import { locations } from "@contentful/app-sdk";
 import ConfigScreen from "./locations/ConfigScreen";
+import Dialog from "./locations/Dialog";
+import Page from "./locations/Page";
 import Sidebar from "./locations/Sidebar";
 import { useSDK } from "@contentful/react-apps-toolkit";
 
 const ComponentLocationSettings = {
+  [locations.LOCATION_APP_CONFIG]: ConfigScreen,
   [locations.LOCATION_ENTRY_SIDEBAR]: Sidebar,
+  [locations.LOCATION_PAGE]: Page,
+  [locations.LOCATION_DIALOG]: Dialog,
 };
 
 const App = () => {
@@ -0,0 +1,53 @@
+import React, { useMemo } from "react";
+import { List, ListItem, Note, Text } from "@contentful/f36-components";
+import { SidebarAppSDK } from "@contentful/app-sdk";
+import { useSDK } from "@contentful/react-apps-toolkit";
+import { getEntityTitle } from "../lib/entities";
+import { IBrokenLink } from "../lib/selection";
+import { IReferenceInformation } from "../lib/types";
+
+interface IBrokenLinkWarningProps {
+  information: IReferenceInformation;
+  brokenLinks: IBrokenLink[];
+}
+
+const BrokenLinkWarning = ({
+  information,
+  brokenLinks,
+}: IBrokenLinkWarningProps) => {
+  const sdk = useSDK<SidebarAppSDK>();
+  const contentTypes = useMemo(() => sdk.space.getCachedContentTypes(), [sdk]);
+  const locale = sdk.locales.default;
+
+  if (brokenLinks.length === 0) {
+    return null;
+  }
+
+  const rootId = sdk.entry.getSys().id;
+  const getParentTitle = (id: string) => {
+    if (id === rootId) {
+      return "this entry";
+    }
+    const entry = information.entries.find((e) => e.sys.id === id);
+    return entry ? getEntityTitle(entry, contentTypes, locale) : id;
+  };
+
+  return (
+    <Note variant="warning" title="Excluded drafts are still linked">
+      <Text>
+        These drafts won't be published, but entries that will be live link to
+        them. The links will be broken on the live site.
+      </Text>
+      <List>
+        {brokenLinks.map(({ link, target }) => (
+          <ListItem key={`${link.parentId}/${link.fieldId}/${link.id}`}>
+            {getEntityTitle(target, contentTypes, locale)} (linked from{" "}
+            {getParentTitle(link.parentId)}, field {link.fieldId})
+          </ListItem>
+        ))}
+      </List>
+    </Note>
+  );
+};
+
+export default BrokenLinkWarning;
@@ -0,0 +1,78 @@
+import React from "react";
+import { Box, Text } from "@contentful/f36-components";
+import { IEntityChanges, IFieldChange, ILinkRef } from "../lib/diff";
+
+interface IChangeDiffProps {
+  changes: IEntityChanges;
+  getFieldName: (fieldId: string) => string;
+  getLinkTitle: (link: ILinkRef) => string;
+}
+
+const ChangeDiff = ({
+  changes,
+  getFieldName,
+  getLinkTitle,
+}: IChangeDiffProps) => {
+  const describe = (change: IFieldChange) => {
+    const parts: string[] = [];
+    if (change.addedLinks?.length) {
+      parts.push(`+ ${change.addedLinks.map(getLinkTitle).join(", ")}`);
+    }
+    if (change.removedLinks?.length) {
+      parts.push(`− ${change.removedLinks.map(getLinkTitle).join(", ")}`);
+    }
+    if (parts.length > 0) {
+      return parts.join("; ");
+    }
+    if (change.kind === "added") {
+      return `added ${change.after ?? ""}`;
+    }
+    if (change.kind === "removed") {
+      return `removed ${change.before ?? ""}`;
+    }
+    if (change.before === change.after) {
+      return "changed";
+    }
+    return `${change.before ?? ""} → ${change.after ?? ""}`;
+  };
+
+  const describeFile = ({ file, publishedFile }: IEntityChanges) => {
+    if (!file) {
+      return "";
+    }
+    if (publishedFile === undefined) {
+      return `, file: ${file} (not compared, the published file isn't available)`;
+    }
+    if (publishedFile === file) {
+      return `, file unchanged: ${file}`;
+    }
+    return `, file: ${publishedFile} → ${file}`;
+  };
+
+  return (
+    <Box marginLeft="spacingS">
+      {changes.editsSincePublish !== undefined && (
+        <Text as="div" fontSize="fontSizeS" fontColor="gray600">
+          {changes.editsSincePublish} edit
+          {changes.editsSincePublish === 1 ? "" : "s"} since publishing
+          {describeFile(changes)}
+        </Text>
+      )}
+      {changes.fields.map((change) => (
+        <Text
+          as="div"
+          fontSize="fontSizeS"
+          fontColor="gray600"
+          key={`${change.fieldId}/${change.locale}`}
+        >
+          <Text fontSize="fontSizeS" fontWeight="fontWeightMedium">
+            {getFieldName(change.fieldId)}
+          </Text>{" "}
+          ({change.locale}): {describe(change)}
+        </Text>
+      ))}
+    </Box>
+  );
+};
+
+export default ChangeDiff;
@@ -0,0 +1,66 @@
+import React from "react";
+import { Checkbox, Flex, FormControl, Text } from "@contentful/f36-components";
+import { ContentTypeProps } from "contentful-management";
+
+interface IContentTypeChecklistProps {
+  name: string;
+  label: string;
+  helpText?: string;
+  contentTypes: ContentTypeProps[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+const ContentTypeChecklist = ({
+  name,
+  label,
+  helpText,
+  contentTypes,
+  selected,
+  onChange,
+}: IContentTypeChecklistProps) => {
+  const toggle = (contentTypeId: string) =>
+    onChange(
+      selected.includes(contentTypeId)
+        ? selected.filter((id) => id !== contentTypeId)
+        : [...selected, contentTypeId]
+    );
+
+  // Configured IDs which no longer exist in this environment are kept so
+  // that switching environments doesn't silently drop them
+  const unknownContentTypes = selected.filter(
+    (id) => !contentTypes.some((ct) => ct.sys.id === id)
+  );
+
+  return (
+    <FormControl as="fieldset">
+      <FormControl.Label>{label}</FormControl.Label>
+      {helpText && <FormControl.HelpText>{helpText}</FormControl.HelpText>}
+      <Flex flexDirection="column" gap="spacingXs" marginTop="spacingXs">
+        {contentTypes.map((contentType) => (
+          <Checkbox
+            key={contentType.sys.id}
+            id={`${name}-${contentType.sys.id}`}
+            isChecked={selected.includes(contentType.sys.id)}
+            onChange={() => toggle(contentType.sys.id)}
+          >
+            {contentType.name}{" "}
+            <Text fontColor="gray500">({contentType.sys.id})</Text>
+          </Checkbox>
+        ))}
+        {unknownContentTypes.map((id) => (
+          <Checkbox
+            key={id}
+            id={`${name}-${id}`}
+            isChecked
+            onChange={() => toggle(id)}
+          >
+            {id} <Text fontColor="gray500">(not in this environment)</Text>
+          </Checkbox>
+        ))}
+      </Flex>
+    </FormControl>
+  );
+};
+
+export default ContentTypeChecklist;
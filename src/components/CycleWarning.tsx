@@ -0,0 +1,47 @@
+import React, { useMemo } from "react";
+import { List, ListItem, Note, Text } from "@contentful/f36-components";
+import { SidebarAppSDK } from "@contentful/app-sdk";
+import { useSDK } from "@contentful/react-apps-toolkit";
+import { getEntityTitle } from "../lib/entities";
+import { IReferenceInformation } from "../lib/types";
+
+interface ICycleWarningProps {
+  information: IReferenceInformation;
+  cycles: string[][];
+}
+
+const CycleWarning = ({ information, cycles }: ICycleWarningProps) => {
+  const sdk = useSDK<SidebarAppSDK>();
+  const contentTypes = useMemo(() => sdk.space.getCachedContentTypes(), [sdk]);
+  const locale = sdk.locales.default;
+
+  if (cycles.length === 0) {
+    return null;
+  }
+
+  const getTitle = (id: string) => {
+    if (id === sdk.entry.getSys().id) {
+      return "this entry";
+    }
+    const entry = information.entries.find((e) => e.sys.id === id);
+    return entry ? getEntityTitle(entry, contentTypes, locale) : id;
+  };
+
+  return (
+    <Note variant="warning" title="Circular references">
+      <Text>
+        These entries link to each other, so none of them can be published
+        first. Each group is published together.
+      </Text>
+      <List>
+        {cycles.map((cycle) => (
+          <ListItem key={cycle.join(",")}>
+            {cycle.map(getTitle).join(" ⇄ ")}
+          </ListItem>
+        ))}
+      </List>
+    </Note>
+  );
+};
+
+export default CycleWarning;
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from "react";
+import {
+  Accordion,
+  Box,
+  Button,
+  Checkbox,
+  List,
+  ListItem,
+  Text,
+  TextLink,
+} from "@contentful/f36-components";
+import { SidebarAppSDK } from "@contentful/app-sdk";
+import { useSDK } from "@contentful/react-apps-toolkit";
+import { AssetProps, EntryProps, KeyValueMap } from "contentful-management";
+import {
+  getContentTypeName,
+  getEditorEntry,
+  getEntityTitle,
+} from "../lib/entities";
+import { IEntityChanges, ILinkRef } from "../lib/diff";
+import { getEntityKey } from "../lib/links";
+import { IReferenceInformation } from "../lib/types";
+import ChangeDiff from "./ChangeDiff";
+
+type Entity = EntryProps<KeyValueMap> | AssetProps;
+
+interface IDependencyListProps {
+  information: IReferenceInformation;
+  // Keys (see `entityKey`) of pending items the editor unticked
+  excludedKeys?: Set<string>;
+  onToggle?: (key: string) => void;
+  // Field-level changes of updated items, keyed by `entityKey`
+  changes?: Map<string, IEntityChanges>;
+}
+
+const DependencyList = ({
+  information,
+  excludedKeys,
+  onToggle,
+  changes,
+}: IDependencyListProps) => {
+  const sdk = useSDK<SidebarAppSDK>();
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+
+  const contentTypes = useMemo(() => sdk.space.getCachedContentTypes(), [sdk]);
+  const locale = sdk.locales.default;
+
+  const entriesById = useMemo(
+    () => new Map(information.entries.map((e) => [e.sys.id, e])),
+    [information]
+  );
+
+  // Titles of the entries between the current entry and the item
+  const getPath = (key: string) => {
+    const path = information.parentPaths.get(key);
+    if (!path || path.length <= 1) {
+      return undefined;
+    }
+    return path
+      .slice(1)
+      .map((id) => {
+        const entry = entriesById.get(id);
+        return entry ? getEntityTitle(entry, contentTypes, locale) : id;
+      })
+      .join(" › ");
+  };
+
+  const getLinkTitle = (link: ILinkRef) => {
+    const linked =
+      link.linkType === "Entry"
+        ? entriesById.get(link.id)
+        : information.assets.find((asset) => asset.sys.id === link.id);
+    return linked ? getEntityTitle(linked, contentTypes, locale) : link.id;
+  };
+
+  const getFieldName = (entity: Entity) => (fieldId: string) => {
+    if (entity.sys.type === "Asset") {
+      return fieldId;
+    }
+    const contentType = contentTypes.find(
+      (ct) =>
+        ct.sys.id === (entity as EntryProps<KeyValueMap>).sys.contentType.sys.id
+    );
+    return (
+      contentType?.fields.find((field) => field.id === fieldId)?.name ?? fieldId
+    );
+  };
+
+  const renderEntity = (entity: Entity, selectable: boolean) => {
+    const key = getEntityKey(entity);
+    const path = getPath(key);
+    const entityChanges = changes?.get(key);
+    return (
+      <ListItem key={key}>
+        {selectable && onToggle && (
+          <Checkbox
+            id={`publish-${key}`}
+            aria-label="Include in publish"
+            isChecked={!excludedKeys?.has(key)}
+            onChange={() => onToggle(key)}
+            style={{ display: "inline-flex", marginRight: "4px" }}
+          />
+        )}
+        <TextLink
+          href={getEditorEntry(entity.sys)}
+          target="_blank"
+          rel="noreferrer"
+        >
+          {getEntityTitle(entity, contentTypes, locale)}
+        </TextLink>{" "}
+        <Text fontColor="gray500">
+          {getContentTypeName(entity, contentTypes)}
+        </Text>
+        {path && (
+          <Text as="div" fontSize="fontSizeS" fontColor="gray600">
+            via {path}
+          </Text>
+        )}
+        {entityChanges && (
+          <ChangeDiff
+            changes={entityChanges}
+            getFieldName={getFieldName(entity)}
+            getLinkTitle={getLinkTitle}
+          />
+        )}
+      </ListItem>
+    );
+  };
+
+  const groups: { title: string; entities: Entity[]; selectable: boolean }[] = [
+    {
+      title: "Draft",
+      entities: [...information.draftAssets, ...information.draftEntries],
+      selectable: true,
+    },
+    {
+      title: "Updated",
+      entities: [...information.updatedAssets, ...information.updatedEntries],
+      selectable: true,
+    },
+    {
+      title: "Out of date",
+      selectable: false,
+      entities: [
+        ...information.outOfDateAssets,
+        ...information.outOfDateEntries,
+      ],
+    },
+  ];
+  // Broken links are listed by ReferenceErrorPanel
+  if (groups.every((group) => group.entities.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Box style={{ width: "100%" }}>
+      <Button
+        variant="transparent"
+        size="small"
+        onClick={() => setIsExpanded((prev) => !prev)}
+      >
+        {isExpanded ? "Hide details" : "Show details"}
+      </Button>
+      {isExpanded && (
+        <Accordion>
+          {groups
+            .filter((group) => group.entities.length > 0)
+            .map((group) => (
+              <Accordion.Item
+                key={group.title}
+                title={`${group.title} (${group.entities.length})`}
+              >
+                <List>
+                  {group.entities.map((entity) =>
+                    renderEntity(entity, group.selectable)
+                  )}
+                </List>
+              </Accordion.Item>
+            ))}
+        </Accordion>
+      )}
+    </Box>
+  );
+};
+
+export default DependencyList;
@@ -0,0 +1,69 @@
+import React, { useMemo, useState } from "react";
+import {
+  Box,
+  Button,
+  List,
+  ListItem,
+  Text,
+  TextLink,
+} from "@contentful/f36-components";
+import { SidebarAppSDK } from "@contentful/app-sdk";
+import { useSDK } from "@contentful/react-apps-toolkit";
+import { EntryProps, KeyValueMap } from "contentful-management";
+import { getEditorEntry, getEntityTitle } from "../lib/entities";
+
+interface IImpactSummaryProps {
+  // Undefined while the incoming-reference scan is running
+  pages: EntryProps<KeyValueMap>[] | undefined;
+}
+
+const ImpactSummary = ({ pages }: IImpactSummaryProps) => {
+  const sdk = useSDK<SidebarAppSDK>();
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const contentTypes = useMemo(() => sdk.space.getCachedContentTypes(), [sdk]);
+  const locale = sdk.locales.default;
+
+  if (!pages) {
+    return (
+      <Text fontColor="gray600" fontSize="fontSizeS">
+        Checking which live pages this changes...
+      </Text>
+    );
+  }
+  if (pages.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box style={{ width: "100%" }}>
+      <Text fontWeight="fontWeightMedium">
+        Publishing will change {pages.length} other live page
+        {pages.length === 1 ? "" : "s"}
+      </Text>{" "}
+      <Button
+        variant="transparent"
+        size="small"
+        onClick={() => setIsExpanded((prev) => !prev)}
+      >
+        {isExpanded ? "Hide" : "Show"}
+      </Button>
+      {isExpanded && (
+        <List>
+          {pages.map((page) => (
+            <ListItem key={page.sys.id}>
+              <TextLink
+                href={getEditorEntry(page.sys)}
+                target="_blank"
+                rel="noreferrer"
+              >
+                {getEntityTitle(page, contentTypes, locale)}
+              </TextLink>
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+};
+
+export default ImpactSummary;
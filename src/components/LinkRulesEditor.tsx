@@ -0,0 +1,122 @@
+import React from "react";
+import {
+  Accordion,
+  Flex,
+  FormControl,
+  Select,
+  Text,
+} from "@contentful/f36-components";
+import { ContentFields, ContentTypeProps } from "contentful-management";
+import { LinkMode, LinkRules } from "../lib/crawler";
+
+interface ILinkRulesEditorProps {
+  contentTypes: ContentTypeProps[];
+  rules: LinkRules;
+  onChange: (rules: LinkRules) => void;
+}
+
+const LINK_MODE_LABELS: Record<LinkMode, string> = {
+  follow: "Follow",
+  include: "Include, don't follow its links",
+  ignore: "Ignore",
+};
+
+// Reference fields, lists of references and rich text (embedded entries and
+// inline links)
+function isLinkField(field: ContentFields) {
+  return (
+    field.type === "Link" ||
+    field.type === "RichText" ||
+    (field.type === "Array" && field.items?.type === "Link")
+  );
+}
+
+const LinkRulesEditor = ({
+  contentTypes,
+  rules,
+  onChange,
+}: ILinkRulesEditorProps) => {
+  // Only fields that don't follow their links are stored
+  const setMode = (contentTypeId: string, fieldId: string, mode: LinkMode) => {
+    const fieldRules = { ...rules[contentTypeId] };
+    if (mode === "follow") {
+      delete fieldRules[fieldId];
+    } else {
+      fieldRules[fieldId] = mode;
+    }
+    const next = { ...rules, [contentTypeId]: fieldRules };
+    if (Object.keys(fieldRules).length === 0) {
+      delete next[contentTypeId];
+    }
+    onChange(next);
+  };
+
+  const withLinkFields = contentTypes.filter((ct) =>
+    ct.fields.some(isLinkField)
+  );
+
+  return (
+    <FormControl as="fieldset">
+      <FormControl.Label>Link fields</FormControl.Label>
+      <FormControl.HelpText>
+        Choose per field whether linked entries are followed (checked along with
+        everything they link to), only included, or ignored. Use this for fields
+        like "related pages" or rich text that would otherwise pull in large
+        parts of the site.
+      </FormControl.HelpText>
+      <Accordion>
+        {withLinkFields.map((contentType) => {
+          const fieldRules = rules[contentType.sys.id] ?? {};
+          const changed = Object.keys(fieldRules).length;
+          return (
+            <Accordion.Item
+              key={contentType.sys.id}
+              title={`${contentType.name}${
+                changed > 0 ? ` (${changed} not followed)` : ""
+              }`}
+            >
+              <Flex flexDirection="column" gap="spacingS">
+                {contentType.fields.filter(isLinkField).map((field) => (
+                  <Flex
+                    key={field.id}
+                    justifyContent="space-between"
+                    alignItems="center"
+                    gap="spacingS"
+                  >
+                    <Text>
+                      {field.name}{" "}
+                      <Text fontColor="gray500">
+                        ({field.type === "RichText" ? "rich text" : field.id})
+                      </Text>
+                    </Text>
+                    <Select
+                      id={`links-${contentType.sys.id}-${field.id}`}
+                      value={fieldRules[field.id] ?? "follow"}
+                      onChange={(e) =>
+                        setMode(
+                          contentType.sys.id,
+                          field.id,
+                          e.target.value as LinkMode
+                        )
+                      }
+                    >
+                      {(Object.keys(LINK_MODE_LABELS) as LinkMode[]).map(
+                        (mode) => (
+                          <Select.Option key={mode} value={mode}>
+                            {LINK_MODE_LABELS[mode]}
+                          </Select.Option>
+                        )
+                      )}
+                    </Select>
+                  </Flex>
+                ))}
+              </Flex>
+            </Accordion.Item>
+          );
+        })}
+      </Accordion>
+    </FormControl>
+  );
+};
+
+export default LinkRulesEditor;
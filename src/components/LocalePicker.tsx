@@ -0,0 +1,75 @@
+import React from "react";
+import { Box, Checkbox, Stack, Text } from "@contentful/f36-components";
+import { SidebarAppSDK } from "@contentful/app-sdk";
+import { useSDK } from "@contentful/react-apps-toolkit";
+
+interface ILocalePickerProps {
+  // Locales to publish; undefined publishes all of them
+  selected?: string[];
+  onChange: (locales?: string[]) => void;
+}
+
+// Switch to locale-based publishing and choose the locales that go live.
+// Only shown in spaces with more than one locale.
+const LocalePicker = ({ selected, onChange }: ILocalePickerProps) => {
+  const sdk = useSDK<SidebarAppSDK>();
+  const { available, names, optional } = sdk.locales;
+
+  if (available.length <= 1) {
+    return null;
+  }
+
+  const toggle = (locale: string) => {
+    if (!selected) return;
+    onChange(
+      selected.includes(locale)
+        ? selected.filter((l) => l !== locale)
+        : available.filter((l) => l === locale || selected.includes(l))
+    );
+  };
+
+  return (
+    <Box style={{ width: "100%" }}>
+      <Checkbox
+        id="publish-locales"
+        isChecked={!!selected}
+        onChange={() => onChange(selected ? undefined : [...available])}
+        helpText="Locales left out keep their current published content"
+      >
+        Publish selected locales only
+      </Checkbox>
+      {selected && (
+        <Stack
+          spacing="spacingXs"
+          flexDirection="column"
+          alignItems="flex-start"
+          marginTop="spacingXs"
+          marginLeft="spacingM"
+        >
+          {available.map((locale) => (
+            <Checkbox
+              key={locale}
+              id={`publish-locale-${locale}`}
+              isChecked={selected.includes(locale)}
+              onChange={() => toggle(locale)}
+            >
+              {names[locale] ?? locale}{" "}
+              <Text fontColor="gray500">
+                {locale === sdk.locales.default
+                  ? "(default)"
+                  : optional[locale]
+                    ? "(optional)"
+                    : ""}
+              </Text>
+            </Checkbox>
+          ))}
+          {selected.length === 0 && (
+            <Text fontColor="red600">Select at least one locale</Text>
+          )}
+        </Stack>
+      )}
+    </Box>
+  );
+};
+
+export default LocalePicker;
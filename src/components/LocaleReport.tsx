@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from "react";
+import {
+  Accordion,
+  Box,
+  Button,
+  List,
+  ListItem,
+  Text,
+  TextLink,
+} from "@contentful/f36-components";
+import { SidebarAppSDK } from "@contentful/app-sdk";
+import { useSDK } from "@contentful/react-apps-toolkit";
+import { EntryProps, KeyValueMap } from "contentful-management";
+import { getEditorEntry, getEntityTitle } from "../lib/entities";
+import { getEntityKey } from "../lib/links";
+import { ILocaleCoverage, IMissingLocaleContent } from "../lib/locales";
+
+interface ILocaleReportProps {
+  coverage: ILocaleCoverage[];
+}
+
+// Deep link into the editor, focused on the first untranslated field
+function getFieldUrl(item: IMissingLocaleContent, locale: string) {
+  const params = new URLSearchParams({
+    focusedField: item.fieldIds[0],
+    focusedLocale: locale,
+  });
+  return `${getEditorEntry(item.entity.sys)}?${params}`;
+}
+
+const LocaleReport = ({ coverage }: ILocaleReportProps) => {
+  const sdk = useSDK<SidebarAppSDK>();
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const contentTypes = useMemo(() => sdk.space.getCachedContentTypes(), [sdk]);
+  const locale = sdk.locales.default;
+
+  const incomplete = coverage.filter((c) => c.missing.length > 0);
+  if (incomplete.length === 0) {
+    return null;
+  }
+
+  const getFieldNames = (item: IMissingLocaleContent) => {
+    if (item.entity.sys.type === "Asset") {
+      return item.fieldIds;
+    }
+    const contentType = contentTypes.find(
+      (ct) =>
+        ct.sys.id ===
+        (item.entity as EntryProps<KeyValueMap>).sys.contentType.sys.id
+    );
+    return item.fieldIds.map(
+      (fieldId) =>
+        contentType?.fields.find((field) => field.id === fieldId)?.name ??
+        fieldId
+    );
+  };
+
+  return (
+    <Box style={{ width: "100%" }}>
+      <Button
+        variant="transparent"
+        size="small"
+        onClick={() => setIsExpanded((prev) => !prev)}
+      >
+        {isExpanded
+          ? "Hide missing translations"
+          : `Missing translations in ${incomplete.length} locale${
+              incomplete.length === 1 ? "" : "s"
+            }`}
+      </Button>
+      {isExpanded && (
+        <Accordion>
+          {incomplete.map(({ locale: code, isOptional, missing }) => (
+            <Accordion.Item
+              key={code}
+              title={`${sdk.locales.names[code] ?? code} (${
+                isOptional ? "optional" : "required"
+              }): ${missing.length}`}
+            >
+              <List>
+                {missing.map((item) => (
+                  <ListItem key={getEntityKey(item.entity)}>
+                    <TextLink
+                      href={getFieldUrl(item, code)}
+                      target="_blank"
+                      rel="noreferrer"
+                    >
+                      {getEntityTitle(item.entity, contentTypes, locale)}
+                    </TextLink>
+                    <Text as="div" fontSize="fontSizeS" fontColor="gray600">
+                      Missing: {getFieldNames(item).join(", ")}
+                    </Text>
+                  </ListItem>
+                ))}
+              </List>
+            </Accordion.Item>
+          ))}
+        </Accordion>
+      )}
+    </Box>
+  );
+};
+
+export default LocaleReport;
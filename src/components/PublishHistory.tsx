@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  List,
+  ListItem,
+  Note,
+  Paragraph,
+  Stack,
+  Text,
+  TextLink,
+} from "@contentful/f36-components";
+import { SidebarAppSDK } from "@contentful/app-sdk";
+import { useSDK } from "@contentful/react-apps-toolkit";
+import { getEditorEntry } from "../lib/entities";
+import { parseEntityKey } from "../lib/links";
+import {
+  describePublishRun,
+  IPublishRun,
+  loadPublishRuns,
+} from "../lib/publishLog";
+
+interface IPublishHistoryProps {
+  entryId: string;
+  onClose: () => void;
+}
+
+interface IRunEntitiesProps {
+  label: string;
+  // Entity keys ("Entry:id") as recorded in the run
+  keys: string[];
+  spaceId: string;
+  fontColor: "gray600" | "red600";
+}
+
+// The entities of a run by type and ID, each linking to its editor
+const RunEntities = ({
+  label,
+  keys,
+  spaceId,
+  fontColor,
+}: IRunEntitiesProps) => (
+  <Text as="div" fontSize="fontSizeS" fontColor={fontColor}>
+    {label}:{" "}
+    {keys.map((key, index) => {
+      const { type, id } = parseEntityKey(key);
+      return (
+        <React.Fragment key={key}>
+          {index > 0 && ", "}
+          <TextLink
+            href={getEditorEntry({ type, id, space: { sys: { id: spaceId } } })}
+            target="_blank"
+            rel="noreferrer"
+          >
+            {type} {id}
+          </TextLink>
+        </React.Fragment>
+      );
+    })}
+  </Text>
+);
+
+// Previous runs for an entry, from the publish log in the space
+const PublishHistory = ({ entryId, onClose }: IPublishHistoryProps) => {
+  const sdk = useSDK<SidebarAppSDK>();
+  const [runs, setRuns] = useState<IPublishRun[]>();
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    loadPublishRuns(sdk.cma, entryId, sdk.locales.default)
+      .then(setRuns)
+      .catch((error) => {
+        console.error("Error loading publish history:", error);
+        setError(`${error}`);
+      });
+  }, [entryId, sdk]);
+
+  const closeButton = (
+    <Button variant="secondary" size="small" onClick={onClose}>
+      Back
+    </Button>
+  );
+
+  if (error) {
+    return (
+      <Box padding="spacingM">
+        <Stack flexDirection="column" alignItems="flex-start">
+          <Note variant="warning" title="No publish history">
+            The publish log couldn't be loaded. Save the app configuration to
+            set it up. ({error})
+          </Note>
+          {closeButton}
+        </Stack>
+      </Box>
+    );
+  }
+
+  if (!runs) {
+    return (
+      <Box padding="spacingM">
+        <Paragraph>Loading publish history...</Paragraph>
+      </Box>
+    );
+  }
+
+  return (
+    <Box padding="spacingM">
+      <Stack flexDirection="column" alignItems="flex-start">
+        {runs.length === 0 ? (
+          <Paragraph>No runs recorded for this entry yet.</Paragraph>
+        ) : (
+          <List>
+            {runs.map((run) => (
+              <ListItem key={`${run.startedAt}:${run.user.id}`}>
+                <Text fontWeight="fontWeightMedium">
+                  {describePublishRun(run)}
+                </Text>
+                <Text as="div" fontSize="fontSizeS" fontColor="gray600">
+                  {new Date(run.startedAt).toLocaleString()} by {run.user.name}
+                  {run.entryIds.length > 1 &&
+                    `, with ${run.entryIds.length - 1} other page${
+                      run.entryIds.length === 2 ? "" : "s"
+                    }`}
+                  {run.locales && `, locales ${run.locales.join(", ")}`}
+                  {run.isCancelled && ", cancelled"}
+                </Text>
+                {run.completed.length > 0 && (
+                  <RunEntities
+                    label={
+                      run.action === "schedule"
+                        ? "Scheduled"
+                        : run.action === "unpublish"
+                          ? "Unpublished"
+                          : "Published"
+                    }
+                    keys={run.completed}
+                    spaceId={sdk.ids.space}
+                    fontColor="gray600"
+                  />
+                )}
+                {run.failed.length > 0 && (
+                  <RunEntities
+                    label="Failed"
+                    keys={run.failed}
+                    spaceId={sdk.ids.space}
+                    fontColor="red600"
+                  />
+                )}
+                {run.scheduledActionIds.length > 0 && (
+                  <Text as="div" fontSize="fontSizeS" fontColor="gray600">
+                    Scheduled actions: {run.scheduledActionIds.join(", ")}
+                  </Text>
+                )}
+              </ListItem>
+            ))}
+          </List>
+        )}
+        {closeButton}
+      </Stack>
+    </Box>
+  );
+};
+
+export default PublishHistory;
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from "react";
+import {
+  Button,
+  Checkbox,
+  Flex,
+  List,
+  ListItem,
+  Note,
+  Text,
+} from "@contentful/f36-components";
+import { useSDK } from "@contentful/react-apps-toolkit";
+import { EntryProps, KeyValueMap } from "contentful-management";
+import { getEntityTitle } from "../lib/entities";
+import { entityKey, IReferenceLink } from "../lib/links";
+import {
+  describeReferenceProblem,
+  IReferenceProblem,
+} from "../lib/referenceErrors";
+
+interface IReferenceErrorPanelProps {
+  problems: IReferenceProblem[];
+  // Entries the broken links may be held in
+  entries: EntryProps<KeyValueMap>[];
+  // The entry the panel is shown for, named "this entry"
+  root?: { id: string; contentTypeId: string };
+  onRemoveLink?: (link: IReferenceLink) => Promise<void>;
+  // Whether archived linked entities are unarchived and published with
+  // the run; the option is offered when `onToggleUnarchive` is given
+  unarchive?: boolean;
+  onToggleUnarchive?: () => void;
+  // Why unarchiving failed on the last run
+  unarchiveError?: string;
+}
+
+const linkKey = (link: IReferenceLink) =>
+  `${link.parentId}/${link.fieldId}/${link.locale}/${entityKey(
+    link.linkType,
+    link.id
+  )}`;
+
+// Broken links and archived linked entities found while crawling, each
+// with the fields holding it
+const ReferenceErrorPanel = ({
+  problems,
+  entries,
+  root,
+  onRemoveLink,
+  unarchive = false,
+  onToggleUnarchive,
+  unarchiveError,
+}: IReferenceErrorPanelProps) => {
+  const sdk = useSDK();
+  const contentTypes = useMemo(() => sdk.space.getCachedContentTypes(), [sdk]);
+  const locale = sdk.locales.default;
+  const [removing, setRemoving] = useState<string>();
+  const [removeError, setRemoveError] = useState<string>();
+
+  if (problems.length === 0) {
+    return null;
+  }
+
+  const archivedCount = problems.filter(
+    (problem) => problem.kind === "archived"
+  ).length;
+
+  const getParent = (id: string) => {
+    if (id === root?.id) {
+      return { title: "this entry", contentTypeId: root.contentTypeId };
+    }
+    const entry = entries.find((e) => e.sys.id === id);
+    return {
+      title: entry ? getEntityTitle(entry, contentTypes, locale) : id,
+      contentTypeId: entry?.sys.contentType.sys.id,
+    };
+  };
+
+  const getFieldName = (contentTypeId: string | undefined, fieldId: string) =>
+    contentTypes
+      .find((ct) => ct.sys.id === contentTypeId)
+      ?.fields.find((field) => field.id === fieldId)?.name ?? fieldId;
+
+  const handleRemove = async (link: IReferenceLink) => {
+    if (!onRemoveLink) return;
+    setRemoving(linkKey(link));
+    setRemoveError(undefined);
+    try {
+      await onRemoveLink(link);
+    } catch (error) {
+      console.error("Error removing link:", error);
+      setRemoveError(`${error}`);
+    }
+    setRemoving(undefined);
+  };
+
+  return (
+    <Note
+      variant="negative"
+      title={`${problems.length} blocking issue${
+        problems.length === 1 ? "" : "s"
+      }`}
+      style={{ width: "100%" }}
+    >
+      <Text>
+        These links will be broken on the live site. The rest of the page is not
+        affected and can still be published.
+      </Text>
+      <List>
+        {problems.map((problem) => (
+          <ListItem key={entityKey(problem.linkType, problem.id)}>
+            <Text fontWeight="fontWeightMedium">
+              {describeReferenceProblem(problem)}
+            </Text>{" "}
+            <Text fontColor="gray600">{problem.id}</Text>
+            {problem.message && (
+              <Text as="div" fontSize="fontSizeS" fontColor="gray600">
+                {problem.message}
+              </Text>
+            )}
+            {problem.links.map((link) => {
+              const parent = getParent(link.parentId);
+              return (
+                <Flex
+                  key={linkKey(link)}
+                  alignItems="center"
+                  gap="spacingXs"
+                  flexWrap="wrap"
+                >
+                  <Text fontSize="fontSizeS">
+                    in {parent.title}, field{" "}
+                    {getFieldName(parent.contentTypeId, link.fieldId)} (
+                    {link.locale})
+                  </Text>
+                  {onRemoveLink && (
+                    <Button
+                      variant="transparent"
+                      size="small"
+                      onClick={() => handleRemove(link)}
+                      isLoading={removing === linkKey(link)}
+                      isDisabled={!!removing}
+                    >
+                      Remove broken link
+                    </Button>
+                  )}
+                </Flex>
+              );
+            })}
+          </ListItem>
+        ))}
+      </List>
+      {onToggleUnarchive && archivedCount > 0 && (
+        <Checkbox
+          id="unarchive-linked"
+          isChecked={unarchive}
+          onChange={onToggleUnarchive}
+        >
+          Unarchive and publish {archivedCount} archived item
+          {archivedCount === 1 ? "" : "s"} with this run
+        </Checkbox>
+      )}
+      {unarchiveError && (
+        <Text as="div" fontColor="red600">
+          Could not unarchive: {unarchiveError}
+        </Text>
+      )}
+      {removeError && (
+        <Text as="div" fontColor="red600">
+          Could not remove the link: {removeError}
+        </Text>
+      )}
+    </Note>
+  );
+};
+
+export default ReferenceErrorPanel;
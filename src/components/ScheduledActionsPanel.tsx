@@ -0,0 +1,116 @@
+import React, { useState } from "react";
+import { Button, Flex, Note, Stack, Text } from "@contentful/f36-components";
+import { ScheduledActionProps } from "contentful-management";
+
+interface IScheduledActionsPanelProps {
+  actions: ScheduledActionProps[];
+  isBusy: boolean;
+  error?: string;
+  onCancelAll: () => void;
+  onReschedule: (scheduledTime: string) => void;
+}
+
+// Format a date as YYYY-MM-DDThh:mm for a datetime-local input
+function toInputValue(datetime: string) {
+  const date = new Date(datetime);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().substring(0, 16);
+}
+
+const ScheduledActionsPanel = ({
+  actions,
+  isBusy,
+  error,
+  onCancelAll,
+  onReschedule,
+}: IScheduledActionsPanelProps) => {
+  const [rescheduleDate, setRescheduleDate] = useState<string>();
+
+  if (actions.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <Note variant="primary" style={{ width: "100%" }}>
+      <Stack spacing="spacingS" flexDirection="column" alignItems="flex-start">
+        {actions.length > 0 && (
+          <>
+            <Text fontWeight="fontWeightMedium">
+              Scheduled for{" "}
+              {new Date(actions[0].scheduledFor.datetime).toLocaleString()}
+            </Text>
+            <Text>
+              {actions.length} linked scheduled action
+              {actions.length === 1 ? "" : "s"}
+            </Text>
+          </>
+        )}
+        {error && <Text fontColor="red900">{error}</Text>}
+        {rescheduleDate !== undefined ? (
+          <Flex flexDirection="column" gap="spacingS" style={{ width: "100%" }}>
+            <input
+              type="datetime-local"
+              value={rescheduleDate}
+              onChange={(e) => setRescheduleDate(e.target.value)}
+              style={{
+                padding: "8px",
+                borderRadius: "4px",
+                border: "1px solid #DCDEE4",
+                width: "100%",
+              }}
+            />
+            <Stack spacing="spacingS">
+              <Button
+                variant="positive"
+                size="small"
+                isDisabled={!rescheduleDate || isBusy}
+                isLoading={isBusy}
+                onClick={() => {
+                  onReschedule(rescheduleDate);
+                  setRescheduleDate(undefined);
+                }}
+              >
+                Reschedule
+              </Button>
+              <Button
+                variant="secondary"
+                size="small"
+                onClick={() => setRescheduleDate(undefined)}
+              >
+                Back
+              </Button>
+            </Stack>
+          </Flex>
+        ) : (
+          actions.length > 0 && (
+            <Stack spacing="spacingS">
+              <Button
+                variant="negative"
+                size="small"
+                isDisabled={isBusy}
+                isLoading={isBusy}
+                onClick={onCancelAll}
+              >
+                Cancel all
+              </Button>
+              <Button
+                variant="secondary"
+                size="small"
+                isDisabled={isBusy}
+                onClick={() =>
+                  setRescheduleDate(
+                    toInputValue(actions[0].scheduledFor.datetime)
+                  )
+                }
+              >
+                Reschedule...
+              </Button>
+            </Stack>
+          )
+        )}
+      </Stack>
+    </Note>
+  );
+};
+
+export default ScheduledActionsPanel;
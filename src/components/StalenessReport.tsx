@@ -0,0 +1,85 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Button,
+  List,
+  ListItem,
+  Note,
+  Text,
+  TextLink,
+} from "@contentful/f36-components";
+import { SidebarAppSDK } from "@contentful/app-sdk";
+import { useSDK } from "@contentful/react-apps-toolkit";
+import { getEditorEntry, getEntityTitle } from "../lib/entities";
+import { getEntityKey } from "../lib/links";
+import { describePublisher, IStaleDependency } from "../lib/staleness";
+
+interface IStalenessReportProps {
+  stale: IStaleDependency[];
+  // Publishes the page again, without its pending dependencies
+  onRepublish?: () => void;
+}
+
+type User = Parameters<typeof describePublisher>[1][number];
+
+// Dependencies published after the page, with when and by whom, so the
+// page can be published again for anything keyed on its publish
+const StalenessReport = ({ stale, onRepublish }: IStalenessReportProps) => {
+  const sdk = useSDK<SidebarAppSDK>();
+  const contentTypes = useMemo(() => sdk.space.getCachedContentTypes(), [sdk]);
+  const locale = sdk.locales.default;
+  const [users, setUsers] = useState<User[]>([]);
+
+  const hasUsers = stale.some((item) => item.publishedBy?.linkType === "User");
+  useEffect(() => {
+    if (!hasUsers) return;
+    sdk.space
+      .getUsers()
+      .then((response) => setUsers(response.items))
+      .catch((error) => console.error("Error loading users:", error));
+  }, [hasUsers, sdk]);
+
+  if (stale.length === 0) {
+    return null;
+  }
+
+  return (
+    <Note
+      variant="warning"
+      title={`${stale.length} item${
+        stale.length === 1 ? "" : "s"
+      } published after this page`}
+      style={{ width: "100%" }}
+    >
+      <Text>
+        The page was last published{" "}
+        {new Date(stale[0].parentPublishedAt).toLocaleString()}. Sites that
+        rebuild or clear caches when the page is published haven't picked these
+        up yet.
+      </Text>
+      <List>
+        {stale.map((item) => (
+          <ListItem key={getEntityKey(item.entity)}>
+            <TextLink
+              href={getEditorEntry(item.entity.sys)}
+              target="_blank"
+              rel="noreferrer"
+            >
+              {getEntityTitle(item.entity, contentTypes, locale)}
+            </TextLink>
+            <Text as="div" fontSize="fontSizeS" fontColor="gray600">
+              published {new Date(item.publishedAt).toLocaleString()} by{" "}
+              {describePublisher(item.publishedBy, users)}
+            </Text>
+          </ListItem>
+        ))}
+      </List>
+      {onRepublish && (
+        <Button variant="secondary" size="small" onClick={onRepublish}>
+          Re-publish page to pick up changes
+        </Button>
+      )}
+    </Note>
+  );
+};
+
+export default StalenessReport;
@@ -0,0 +1,142 @@
+import React, { useMemo } from "react";
+import {
+  Box,
+  Button,
+  Checkbox,
+  List,
+  ListItem,
+  Note,
+  Paragraph,
+  Stack,
+  Text,
+  TextLink,
+} from "@contentful/f36-components";
+import { SidebarAppSDK } from "@contentful/app-sdk";
+import { useSDK } from "@contentful/react-apps-toolkit";
+import {
+  getContentTypeName,
+  getEditorEntry,
+  getEntityTitle,
+} from "../lib/entities";
+import { getEntityKey } from "../lib/links";
+import { IOrphans } from "../lib/orphans";
+
+export interface IOrphanReview {
+  progress?: { processed: number; total: number };
+  orphans?: IOrphans;
+  error?: string;
+}
+
+interface IUnpublishReviewProps {
+  review: IOrphanReview;
+  archive: boolean;
+  onToggleArchive: () => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const UnpublishReview = ({
+  review,
+  archive,
+  onToggleArchive,
+  onConfirm,
+  onCancel,
+}: IUnpublishReviewProps) => {
+  const sdk = useSDK<SidebarAppSDK>();
+  const contentTypes = useMemo(() => sdk.space.getCachedContentTypes(), [sdk]);
+  const locale = sdk.locales.default;
+
+  if (review.error) {
+    return (
+      <Box padding="spacingM">
+        <Stack
+          spacing="spacingS"
+          flexDirection="column"
+          alignItems="flex-start"
+        >
+          <Note variant="negative">
+            Could not check incoming links: {review.error}
+          </Note>
+          <Button variant="secondary" size="small" onClick={onCancel}>
+            Back
+          </Button>
+        </Stack>
+      </Box>
+    );
+  }
+
+  if (!review.orphans) {
+    return (
+      <Box padding="spacingM">
+        <Stack
+          spacing="spacingS"
+          flexDirection="column"
+          alignItems="flex-start"
+        >
+          <Paragraph>Checking which items only this page uses...</Paragraph>
+          {review.progress && (
+            <Text>
+              Checked {review.progress.processed} of {review.progress.total}{" "}
+              items
+            </Text>
+          )}
+          <Button variant="secondary" size="small" onClick={onCancel}>
+            Back
+          </Button>
+        </Stack>
+      </Box>
+    );
+  }
+
+  const entities = [...review.orphans.entries, ...review.orphans.assets];
+
+  return (
+    <Box padding="spacingM">
+      <Stack spacing="spacingS" flexDirection="column" alignItems="flex-start">
+        <Text fontWeight="fontWeightMedium">Unpublish page and orphans</Text>
+        <Paragraph>
+          {entities.length === 0
+            ? "Every dependency is also used elsewhere, so only this page will be unpublished."
+            : `This page and ${entities.length} item${
+                entities.length === 1 ? "" : "s"
+              } used only by it will be unpublished:`}
+        </Paragraph>
+        {entities.length > 0 && (
+          <List>
+            {entities.map((entity) => (
+              <ListItem key={getEntityKey(entity)}>
+                <TextLink
+                  href={getEditorEntry(entity.sys)}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  {getEntityTitle(entity, contentTypes, locale)}
+                </TextLink>{" "}
+                <Text fontColor="gray500">
+                  {getContentTypeName(entity, contentTypes)}
+                </Text>
+              </ListItem>
+            ))}
+          </List>
+        )}
+        <Checkbox
+          id="archive-orphans"
+          isChecked={archive}
+          onChange={onToggleArchive}
+        >
+          Archive them as well
+        </Checkbox>
+        <Stack spacing="spacingS">
+          <Button variant="negative" onClick={onConfirm}>
+            {archive ? "Unpublish and archive" : "Unpublish"}
+          </Button>
+          <Button variant="secondary" onClick={onCancel}>
+            Cancel
+          </Button>
+        </Stack>
+      </Stack>
+    </Box>
+  );
+};
+
+export default UnpublishReview;
@@ -0,0 +1,113 @@
+import React, { useMemo } from "react";
+import {
+  Box,
+  Button,
+  List,
+  ListItem,
+  Note,
+  Paragraph,
+  Stack,
+  Text,
+  TextLink,
+} from "@contentful/f36-components";
+import { SidebarAppSDK } from "@contentful/app-sdk";
+import { useSDK } from "@contentful/react-apps-toolkit";
+import { getEditorEntry, getEntityTitle } from "../lib/entities";
+import { IValidationProblem } from "../lib/validation";
+
+export interface IValidationReview {
+  isScheduled: boolean;
+  problems?: IValidationProblem[];
+  error?: string;
+}
+
+interface IValidationReportProps {
+  review: IValidationReview;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Deep link into the entry editor, focused on the offending field
+function getFieldUrl(problem: IValidationProblem) {
+  const url = getEditorEntry(problem.entity.sys);
+  if (!problem.fieldId) {
+    return url;
+  }
+  const params = new URLSearchParams({ focusedField: problem.fieldId });
+  if (problem.locale) {
+    params.set("focusedLocale", problem.locale);
+  }
+  return `${url}?${params}`;
+}
+
+const ValidationReport = ({
+  review,
+  onConfirm,
+  onCancel,
+}: IValidationReportProps) => {
+  const sdk = useSDK<SidebarAppSDK>();
+  const contentTypes = useMemo(() => sdk.space.getCachedContentTypes(), [sdk]);
+  const locale = sdk.locales.default;
+
+  if (!review.problems && !review.error) {
+    return (
+      <Box padding="spacingM">
+        <Paragraph>Checking content against validation rules...</Paragraph>
+      </Box>
+    );
+  }
+
+  const problems = review.problems ?? [];
+  const action = review.isScheduled ? "Schedule" : "Publish";
+
+  return (
+    <Box padding="spacingM">
+      <Stack spacing="spacingS" flexDirection="column" alignItems="flex-start">
+        {review.error ? (
+          <Note variant="warning">
+            Could not check validation rules: {review.error}
+          </Note>
+        ) : (
+          <>
+            <Text fontWeight="fontWeightMedium">
+              {problems.length} validation problem
+              {problems.length === 1 ? "" : "s"}
+            </Text>
+            <Paragraph>
+              Contentful will refuse to publish these items until they are
+              fixed.
+            </Paragraph>
+            <List>
+              {problems.map((problem, index) => (
+                <ListItem key={index}>
+                  <TextLink
+                    href={getFieldUrl(problem)}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    {getEntityTitle(problem.entity, contentTypes, locale)}
+                  </TextLink>
+                  {problem.fieldName && `: ${problem.fieldName}`}
+                  {problem.locale && (
+                    <Text fontColor="gray500"> ({problem.locale})</Text>
+                  )}{" "}
+                  {problem.message}
+                </ListItem>
+              ))}
+            </List>
+          </>
+        )}
+        <Stack spacing="spacingS">
+          <Button variant="negative" onClick={onConfirm}>
+            {action} anyway
+          </Button>
+          <Button variant="secondary" onClick={onCancel}>
+            Cancel
+          </Button>
+        </Stack>
+      </Stack>
+    </Box>
+  );
+};
+
+export default ValidationReport;
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import {
+  createSpace,
+  FakeSpace,
+  ids,
+  IFakeSpaceLayout,
+} from "../../test/mocks";
+import { crawlBatch, publishBatch } from "./batch";
+import { IPublishStatus } from "./publish";
+
+// Two pending pages sharing a footer with a logo. The about page has a hero;
+// the landing page has a changed promo and links to the about page.
+const layout: IFakeSpaceLayout = {
+  assets: { logo: "draft" },
+  entries: {
+    footer: {
+      links: { logo: [{ linkType: "Asset", id: "logo" }] },
+    },
+    hero: {},
+    promo: { state: "changed" },
+    about: {
+      contentType: "page",
+      links: {
+        body: [
+          { linkType: "Entry", id: "hero" },
+          { linkType: "Entry", id: "footer" },
+        ],
+      },
+    },
+    landing: {
+      contentType: "page",
+      state: "changed",
+      links: {
+        body: [
+          { linkType: "Entry", id: "promo" },
+          { linkType: "Entry", id: "about" },
+          { linkType: "Entry", id: "footer" },
+        ],
+      },
+    },
+  },
+};
+
+async function publish(
+  space: FakeSpace,
+  entryIds: string[],
+  scheduledTime?: string
+) {
+  const batch = await crawlBatch(space, entryIds, ["page"]);
+  const statuses: IPublishStatus[] = [];
+  const success = await publishBatch(
+    space,
+    batch,
+    (status) => statuses.push(status),
+    scheduledTime,
+    "sequential"
+  );
+  return { success, status: statuses[statuses.length - 1] };
+}
+
+describe("crawlBatch", () => {
+  it("crawls shared dependencies once", async () => {
+    const space = createSpace(layout);
+    const batch = await crawlBatch(space, ["landing", "about"], ["page"]);
+
+    expect(space.referenceRequests.sort()).toEqual([
+      "about",
+      "footer",
+      "hero",
+      "landing",
+      "promo",
+    ]);
+    expect(ids(batch.pages)).toEqual(["about", "landing"]);
+    expect(ids(batch.pendingPages)).toEqual(["about", "landing"]);
+    expect(ids(batch.information.entries)).toEqual(["footer", "hero", "promo"]);
+    expect(ids(batch.information.draftEntries)).toEqual(["footer", "hero"]);
+    expect(ids(batch.information.updatedEntries)).toEqual(["promo"]);
+    expect(ids(batch.information.draftAssets)).toEqual(["logo"]);
+  });
+
+  it("reports entries that can't be loaded", async () => {
+    const batch = await crawlBatch(createSpace(layout), ["about", "gone"], []);
+
+    expect(ids(batch.pages)).toEqual(["about"]);
+    expect(batch.information.errorCount).toBe(1);
+    expect(batch.information.errors?.[0].sys.id).toBe("gone");
+  });
+});
+
+describe("publishBatch", () => {
+  it("publishes dependencies once, then the pages in link order", async () => {
+    const space = createSpace(layout);
+    const { success, status } = await publish(space, ["landing", "about"]);
+
+    expect(success).toBe(true);
+    expect(space.published.filter((key) => key === "Entry:footer")).toEqual([
+      "Entry:footer",
+    ]);
+    expect(space.published.slice(-2)).toEqual(["Entry:about", "Entry:landing"]);
+    expect(status).toMatchObject({ total: 6, published: 6, errors: 0 });
+    expect(status.remaining).toEqual([]);
+  });
+
+  it("holds back pages whose dependencies failed", async () => {
+    const space = createSpace(layout);
+    space.failing.add("Entry:promo");
+    const { success, status } = await publish(space, ["landing", "about"]);
+
+    expect(success).toBe(false);
+    expect(space.published).toContain("Entry:about");
+    expect(space.published).not.toContain("Entry:landing");
+    expect(status.errored.map((sys) => sys.id).sort()).toEqual([
+      "landing",
+      "promo",
+    ]);
+  });
+
+  it("schedules the dependencies and the pages", async () => {
+    const space = createSpace(layout);
+    const { success } = await publish(
+      space,
+      ["landing", "about"],
+      "2030-01-01T09:00:00Z"
+    );
+
+    expect(success).toBe(true);
+    expect(space.published).toEqual([]);
+    expect(
+      space.scheduledActions.map((action) => action.entity.sys.id)
+    ).toEqual(
+      expect.arrayContaining([
+        "logo",
+        "footer",
+        "hero",
+        "promo",
+        "about",
+        "landing",
+      ])
+    );
+    expect(space.scheduledActions).toHaveLength(6);
+  });
+});
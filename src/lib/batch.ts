@@ -0,0 +1,181 @@
+import {
+  EntryProps,
+  KeyValueMap,
+  isDraft,
+  isUpdated,
+} from "contentful-management";
+import { IContentClient, IEntitySys } from "./client";
+import {
+  buildReferenceInformation,
+  fetchReferencesIteratively,
+  ICrawlOptions,
+} from "./crawler";
+import { orderForPublishing } from "./graph";
+import { buildParentPaths, entityKey, getEntityKey } from "./links";
+import { IPublishStatus, PublishStrategy, publishPage } from "./publish";
+import { getErrorStatus, withRetries } from "./retry";
+import { IReferenceInformation } from "./types";
+import { isAbortError } from "./utils";
+
+// Several pages and everything they need, crawled together
+export interface IBatchInformation {
+  // The selected entries that could be loaded, in the order given
+  pages: EntryProps<KeyValueMap>[];
+  // Pages that are drafts or have unpublished changes
+  pendingPages: EntryProps<KeyValueMap>[];
+  // Dependencies of all pages together, each one once. The pages
+  // themselves are left out, even where one links to another.
+  information: IReferenceInformation;
+}
+
+// Crawl the given entries in one go, so a component used by several of
+// them is fetched and listed once. Entries that can't be loaded show up
+// as errors.
+export async function crawlBatch(
+  client: IContentClient,
+  entryIds: string[],
+  excludedContentTypes: string[],
+  setProgress?: (progress: { processed: number; total: number }) => void,
+  options: ICrawlOptions = {}
+): Promise<IBatchInformation> {
+  const pages: EntryProps<KeyValueMap>[] = [];
+  const loadErrors: any[] = [];
+  for (const entryId of new Set(entryIds)) {
+    options.signal?.throwIfAborted();
+    try {
+      pages.push(await withRetries(() => client.getEntry(entryId), options));
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error("Error loading entry", entryId, ":", error);
+      loadErrors.push({
+        details: {
+          errors: [{ message: `Error loading entry: ${error}` }],
+          status: getErrorStatus(error),
+        },
+        sys: { id: entryId, type: "Entry" },
+      });
+    }
+  }
+
+  const references = await fetchReferencesIteratively(
+    client,
+    pages.map((page) => page.sys.id),
+    excludedContentTypes,
+    setProgress,
+    options
+  );
+  const pageIds = new Set(pages.map((page) => page.sys.id));
+  const information = buildReferenceInformation(
+    pages.map((page) => page.sys),
+    {
+      ...references,
+      entries: references.entries.filter((entry) => !pageIds.has(entry.sys.id)),
+      errors: [...loadErrors, ...references.errors],
+    }
+  );
+  return {
+    pages,
+    pendingPages: pages.filter((page) => isDraft(page) || isUpdated(page)),
+    information,
+  };
+}
+
+// Publish (or schedule) the combined dependencies of a batch, then each
+// pending page whose own dependencies all went out. Pages linking to other
+// pages of the batch go after them. Progress and errors of the whole run
+// are reported as one status.
+export async function publishBatch(
+  client: IContentClient,
+  batch: IBatchInformation,
+  setStatus: (status: IPublishStatus) => void,
+  scheduledTime?: string,
+  strategy: PublishStrategy = "bulk",
+  signal?: AbortSignal
+): Promise<boolean> {
+  const { information } = batch;
+  const pages = orderForPublishing(
+    batch.pendingPages,
+    information.links
+  ).flat();
+
+  let dependencyStatus: IPublishStatus | undefined;
+  let published = 0;
+  const errored: IEntitySys[] = [];
+  const scheduledActionIds: string[] = [];
+  const remaining = new Set(pages.map(getEntityKey));
+  const completed: string[] = [];
+  const reportStatus = (isCancelled?: boolean) => {
+    const status = dependencyStatus!;
+    setStatus({
+      ...status,
+      total: status.total + pages.length,
+      published: status.published + published,
+      errors: status.errors + errored.length,
+      errored: [...status.errored, ...errored],
+      scheduledActionIds: [
+        ...(status.scheduledActionIds ?? []),
+        ...scheduledActionIds,
+      ],
+      isCancelled: isCancelled || status.isCancelled,
+      remaining: [...(status.remaining ?? []), ...remaining],
+      completed: [...(status.completed ?? []), ...completed],
+    });
+  };
+
+  await publishPage(
+    client,
+    null,
+    information,
+    (status) => {
+      dependencyStatus = status;
+      reportStatus();
+    },
+    scheduledTime,
+    strategy,
+    signal
+  );
+  if (dependencyStatus!.isCancelled) {
+    return false;
+  }
+
+  const failed = new Set(
+    dependencyStatus!.errored.map((sys) => entityKey(sys.type, sys.id))
+  );
+  for (const page of pages) {
+    if (signal?.aborted) {
+      reportStatus(true);
+      return false;
+    }
+    const key = getEntityKey(page);
+    const dependencies = buildParentPaths(page.sys.id, information.links);
+    let success = false;
+    if (
+      ![...dependencies.keys()].some((dependency) => failed.has(dependency))
+    ) {
+      try {
+        if (scheduledTime) {
+          const action = await client.schedulePublish(page.sys, scheduledTime);
+          scheduledActionIds.push(action.sys.id);
+        } else {
+          await client.publishEntry(page);
+        }
+        success = true;
+      } catch (error) {
+        console.error("Error publishing page", page.sys.id, ":", error);
+      }
+    }
+    if (success) {
+      published++;
+      completed.push(key);
+    } else {
+      errored.push(page.sys);
+      failed.add(key);
+    }
+    remaining.delete(key);
+    reportStatus();
+  }
+
+  return dependencyStatus!.errors === 0 && errored.length === 0;
+}
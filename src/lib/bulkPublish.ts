@@ -0,0 +1,155 @@
+import {
+  AssetProps,
+  BulkActionProps,
+  BulkActionPublishPayload,
+  EntryProps,
+  KeyValueMap,
+} from "contentful-management";
+import { IContentClient, IEntitySys } from "./client";
+import { entityKey } from "./links";
+import { chunk, wait } from "./utils";
+
+// Maximum number of entities the CMA accepts in a single bulk action
+export const BULK_ACTION_LIMIT = 200;
+
+const POLL_INTERVAL_MS = 1000;
+const POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
+type Entity = EntryProps<KeyValueMap> | AssetProps;
+
+// Thrown when the space can't create bulk actions (feature not enabled,
+// missing permissions, ...). Carries the entities that were not handled so
+// the caller can publish them another way.
+export class BulkActionsUnavailableError extends Error {
+  remaining: Entity[];
+
+  constructor(cause: unknown, remaining: Entity[]) {
+    super(`Bulk actions unavailable: ${cause}`);
+    this.name = "BulkActionsUnavailableError";
+    this.remaining = remaining;
+  }
+}
+
+export interface IBulkPublishCallbacks {
+  onPublished: (sys: IEntitySys) => void;
+  onErrored: (sys: IEntitySys) => void;
+}
+
+async function waitForBulkAction(
+  client: IContentClient,
+  created: BulkActionProps<BulkActionPublishPayload>
+) {
+  const startedAt = Date.now();
+  for (;;) {
+    const bulkAction = await client.getBulkAction(created);
+    if (
+      bulkAction.sys.status === "succeeded" ||
+      bulkAction.sys.status === "failed"
+    ) {
+      return bulkAction;
+    }
+    if (Date.now() - startedAt > POLL_TIMEOUT_MS) {
+      throw new Error(`Timed out waiting for bulk action ${created.sys.id}`);
+    }
+    await wait(POLL_INTERVAL_MS);
+  }
+}
+
+// Publish a batch of entities through a single bulk action. Entities that
+// the bulk action reports as failing are marked as errored; as bulk publish
+// doesn't publish anything when one item fails, the rest of the batch is
+// tried again without them.
+async function publishBatch(
+  client: IContentClient,
+  batch: Entity[],
+  callbacks: IBulkPublishCallbacks,
+  signal?: AbortSignal
+) {
+  let pending = batch;
+  while (pending.length > 0) {
+    signal?.throwIfAborted();
+    let created;
+    try {
+      created = await client.createBulkPublish(pending);
+    } catch (error) {
+      throw new BulkActionsUnavailableError(error, pending);
+    }
+
+    let bulkAction;
+    try {
+      bulkAction = await waitForBulkAction(client, created);
+    } catch (error) {
+      console.error("Error waiting for bulk action:", error);
+      pending.forEach((entity) => callbacks.onErrored(entity.sys));
+      return;
+    }
+
+    if (bulkAction.sys.status === "succeeded") {
+      pending.forEach((entity) => callbacks.onPublished(entity.sys));
+      return;
+    }
+
+    const failedKeys = new Set(
+      (bulkAction.error?.details?.errors ?? []).map(({ entity }) =>
+        entityKey(entity.sys.linkType, entity.sys.id)
+      )
+    );
+    const failed = pending.filter((entity) =>
+      failedKeys.has(entityKey(entity.sys.type, entity.sys.id))
+    );
+    // Without per-item details there is nothing to retry
+    if (failed.length === 0) {
+      console.error("Bulk action failed:", bulkAction.error);
+      pending.forEach((entity) => callbacks.onErrored(entity.sys));
+      return;
+    }
+    failed.forEach((entity) => callbacks.onErrored(entity.sys));
+    pending = pending.filter((entity) => !failed.includes(entity));
+  }
+}
+
+// Fill batches in order without splitting a group across two bulk actions,
+// unless the group is too big for one
+export function packGroups(groups: Entity[][], limit: number): Entity[][] {
+  const batches: Entity[][] = [];
+  let current: Entity[] = [];
+  for (const group of groups) {
+    if (current.length + group.length > limit && current.length > 0) {
+      batches.push(current);
+      current = [];
+    }
+    if (group.length > limit) {
+      batches.push(...chunk(group, limit));
+    } else {
+      current.push(...group);
+    }
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+// Publish groups of entities, in order, in bulk actions of at most
+// BULK_ACTION_LIMIT items. Entities in a group always go out together.
+// Each entity is reported through the callbacks as its batch finishes.
+// Aborting `signal` lets the running bulk action finish and then stops with
+// an "AbortError" before the next one is created.
+export async function bulkPublish(
+  client: IContentClient,
+  groups: Entity[][],
+  callbacks: IBulkPublishCallbacks,
+  signal?: AbortSignal
+) {
+  const batches = packGroups(groups, BULK_ACTION_LIMIT);
+  for (let i = 0; i < batches.length; i++) {
+    try {
+      await publishBatch(client, batches[i], callbacks, signal);
+    } catch (error) {
+      if (error instanceof BulkActionsUnavailableError) {
+        error.remaining.push(...batches.slice(i + 1).flat());
+      }
+      throw error;
+    }
+  }
+}
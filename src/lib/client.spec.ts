@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+import { CMAClient } from "@contentful/app-sdk";
+import { FakeSpace } from "../../test/mocks";
+import { canPublishLocales, createContentClient } from "./client";
+
+// A CMA client recording the publish requests it is asked to send
+function createCma() {
+  const cma = {
+    entry: { publish: vi.fn().mockResolvedValue({}) },
+    asset: { publish: vi.fn().mockResolvedValue({}) },
+    raw: { put: vi.fn().mockResolvedValue({}) },
+  };
+  return { cma, client: createContentClient(cma as unknown as CMAClient) };
+}
+
+describe("createContentClient", () => {
+  it("sends the locales to publish in the request body", async () => {
+    const space = new FakeSpace();
+    const entry = space.addEntry("card", { state: "changed" });
+    const asset = space.addAsset("image");
+    const { cma, client } = createCma();
+
+    await client.publishEntry(entry, ["en-US", "de-DE"]);
+    await client.publishAsset(asset, ["de-DE"]);
+
+    expect(cma.raw.put).toHaveBeenCalledWith(
+      "/spaces/fake-space/environments/master/entries/card/published",
+      { add: { fields: { "*": ["en-US", "de-DE"] } } },
+      { headers: { "X-Contentful-Version": 3 } }
+    );
+    expect(cma.raw.put).toHaveBeenCalledWith(
+      "/spaces/fake-space/environments/master/assets/image/published",
+      { add: { fields: { "*": ["de-DE"] } } },
+      { headers: { "X-Contentful-Version": 1 } }
+    );
+    expect(cma.entry.publish).not.toHaveBeenCalled();
+    expect(cma.asset.publish).not.toHaveBeenCalled();
+  });
+
+  it("publishes every locale without a list", async () => {
+    const space = new FakeSpace();
+    const entry = space.addEntry("card");
+    const { cma, client } = createCma();
+
+    await client.publishEntry(entry);
+    await client.publishEntry(entry, []);
+
+    expect(cma.entry.publish).toHaveBeenCalledTimes(2);
+    expect(cma.entry.publish).toHaveBeenCalledWith({ entryId: "card" }, entry);
+    expect(cma.raw.put).not.toHaveBeenCalled();
+  });
+
+  it("refuses to publish locales without raw requests", async () => {
+    const space = new FakeSpace();
+    const entry = space.addEntry("card");
+    const cma = { entry: { publish: vi.fn() } } as unknown as CMAClient;
+
+    expect(canPublishLocales(cma)).toBe(false);
+    await expect(
+      createContentClient(cma).publishEntry(entry, ["de-DE"])
+    ).rejects.toThrow("Publishing selected locales isn't supported here");
+    expect(cma.entry.publish).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,218 @@
+import { CMAClient } from "@contentful/app-sdk";
+import {
+  AssetProps,
+  BulkActionProps,
+  BulkActionPublishPayload,
+  EntryProps,
+  KeyValueMap,
+  PlainClientAPI,
+  ScheduledActionProps,
+} from "contentful-management";
+import { EntryReferenceProps } from "contentful-management/dist/typings/entities/entry";
+import { entityKey, LinkedEntityType } from "./links";
+import { chunk } from "./utils";
+
+// Keeps the `sys.id[in]` filter well inside URL length limits
+const IDS_PER_QUERY = 100;
+
+type Entity = EntryProps<KeyValueMap> | AssetProps;
+
+// The parts of an entity's sys the crawler and publisher rely on. Both CMA
+// entities and the entry editor's `EntrySys` fit.
+export interface IEntitySys {
+  type: string;
+  id: string;
+  version: number;
+  publishedVersion?: number;
+  archivedVersion?: number;
+  publishedAt?: string;
+  space: { sys: { id: string } };
+  environment: { sys: { id: string } };
+}
+
+// Everything the crawl and publish logic needs from Contentful. The app
+// uses `createContentClient` on top of the SDK's CMA client; tests use an
+// in-memory space.
+export interface IContentClient {
+  getEntry(entryId: string): Promise<EntryProps<KeyValueMap>>;
+  getReferences(entryId: string): Promise<EntryReferenceProps>;
+  // Current `sys.version` of the given entities, keyed by `entityKey`.
+  // Entities that no longer exist are left out.
+  getVersions(
+    links: { linkType: LinkedEntityType; id: string }[]
+  ): Promise<Map<string, number>>;
+  // Current sys of the given entities (archived ones included), keyed by
+  // `entityKey`. Entities that no longer exist are left out.
+  getEntitySys(
+    links: { linkType: LinkedEntityType; id: string }[]
+  ): Promise<Map<string, IEntitySys>>;
+  updateEntry(entry: EntryProps<KeyValueMap>): Promise<EntryProps<KeyValueMap>>;
+  // Unarchive an entity, leaving it as a draft
+  unarchive(link: { linkType: LinkedEntityType; id: string }): Promise<Entity>;
+  unpublish(link: { linkType: LinkedEntityType; id: string }): Promise<Entity>;
+  // Archive an unpublished entity
+  archive(link: { linkType: LinkedEntityType; id: string }): Promise<Entity>;
+  // With `locales`, only those locales are published and the others keep
+  // their current published state
+  publishEntry(
+    entry: EntryProps<KeyValueMap>,
+    locales?: string[]
+  ): Promise<unknown>;
+  publishAsset(asset: AssetProps, locales?: string[]): Promise<unknown>;
+  schedulePublish(
+    sys: IEntitySys,
+    scheduledTime: string
+  ): Promise<ScheduledActionProps>;
+  // Start a bulk publish of the given entities, at their current versions
+  createBulkPublish(
+    entities: Entity[]
+  ): Promise<BulkActionProps<BulkActionPublishPayload>>;
+  getBulkAction(
+    bulkAction: BulkActionProps<BulkActionPublishPayload>
+  ): Promise<BulkActionProps<BulkActionPublishPayload>>;
+}
+
+// The SDK's CMA client is a full plain client underneath, but its type
+// leaves out raw requests, which locale-based publishing needs
+export type ContentManagementClient = CMAClient &
+  Partial<Pick<PlainClientAPI, "raw">>;
+
+// Whether `publishEntry` and `publishAsset` can publish single locales
+export function canPublishLocales(cma: ContentManagementClient) {
+  return !!cma.raw;
+}
+
+// Locale-based publishing: only the given locales are published. The CMA
+// client's `publish` sends no body, so the request is made here.
+async function publishLocales(
+  cma: ContentManagementClient,
+  entity: Entity,
+  locales: string[]
+): Promise<unknown> {
+  if (!cma.raw) {
+    throw new Error("Publishing selected locales isn't supported here");
+  }
+  const { type, id, version, space, environment } = entity.sys;
+  return cma.raw.put(
+    `/spaces/${space.sys.id}/environments/${environment.sys.id}/${
+      type === "Asset" ? "assets" : "entries"
+    }/${id}/published`,
+    { add: { fields: { "*": locales } } },
+    { headers: { "X-Contentful-Version": version } }
+  );
+}
+
+// The sys of the linked entities that exist, keyed by `entityKey`, looked
+// up in as few requests as the URL length allows
+async function findEntitySys(
+  cma: CMAClient,
+  links: { linkType: LinkedEntityType; id: string }[],
+  select: string
+) {
+  const found = new Map<string, IEntitySys>();
+  for (const linkType of ["Entry", "Asset"] as const) {
+    const ids = links
+      .filter((link) => link.linkType === linkType)
+      .map((link) => link.id);
+    for (const batch of chunk(ids, IDS_PER_QUERY)) {
+      const query = {
+        "sys.id[in]": batch.join(","),
+        select,
+        limit: IDS_PER_QUERY,
+      };
+      const { items } =
+        linkType === "Entry"
+          ? await cma.entry.getMany({ query })
+          : await cma.asset.getMany({ query });
+      for (const item of items) {
+        found.set(entityKey(linkType, item.sys.id), item.sys);
+      }
+    }
+  }
+  return found;
+}
+
+export function createContentClient(
+  cma: ContentManagementClient
+): IContentClient {
+  return {
+    getEntry: (entryId) => cma.entry.get({ entryId }),
+    getReferences: (entryId) => cma.entry.references({ entryId }),
+    getVersions: async (links) => {
+      const found = await findEntitySys(cma, links, "sys.id,sys.version");
+      return new Map([...found].map(([key, sys]) => [key, sys.version]));
+    },
+    getEntitySys: (links) => findEntitySys(cma, links, "sys"),
+    updateEntry: (entry) => cma.entry.update({ entryId: entry.sys.id }, entry),
+    unarchive: ({ linkType, id }) =>
+      linkType === "Asset"
+        ? cma.asset.unarchive({ assetId: id })
+        : cma.entry.unarchive({ entryId: id }),
+    unpublish: ({ linkType, id }) =>
+      linkType === "Asset"
+        ? cma.asset.unpublish({ assetId: id })
+        : cma.entry.unpublish({ entryId: id }),
+    archive: ({ linkType, id }) =>
+      linkType === "Asset"
+        ? cma.asset.archive({ assetId: id })
+        : cma.entry.archive({ entryId: id }),
+    publishEntry: (entry, locales) =>
+      locales?.length
+        ? publishLocales(cma, entry, locales)
+        : cma.entry.publish({ entryId: entry.sys.id }, entry),
+    publishAsset: (asset, locales) =>
+      locales?.length
+        ? publishLocales(cma, asset, locales)
+        : cma.asset.publish({ assetId: asset.sys.id }, asset),
+    schedulePublish: (sys, scheduledTime) =>
+      cma.scheduledActions.create(
+        { spaceId: sys.space.sys.id },
+        {
+          environment: {
+            sys: {
+              type: "Link",
+              linkType: "Environment",
+              id: sys.environment.sys.id,
+            },
+          },
+          entity: {
+            sys: {
+              type: "Link",
+              linkType: sys.type === "Asset" ? "Asset" : "Entry",
+              id: sys.id,
+            },
+          },
+          action: "publish",
+          scheduledFor: {
+            datetime: new Date(scheduledTime).toISOString(),
+          },
+        }
+      ),
+    createBulkPublish: (entities) =>
+      cma.bulkAction.publish(
+        {
+          spaceId: entities[0].sys.space.sys.id,
+          environmentId: entities[0].sys.environment.sys.id,
+        },
+        {
+          entities: {
+            sys: { type: "Array" },
+            items: entities.map((entity) => ({
+              sys: {
+                type: "Link",
+                linkType: entity.sys.type as "Entry" | "Asset",
+                id: entity.sys.id,
+                version: entity.sys.version,
+              },
+            })),
+          },
+        }
+      ),
+    getBulkAction: (bulkAction) =>
+      cma.bulkAction.get({
+        spaceId: bulkAction.sys.space.sys.id,
+        environmentId: bulkAction.sys.environment.sys.id,
+        bulkActionId: bulkAction.sys.id,
+      }),
+  };
+}
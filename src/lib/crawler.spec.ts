@@ -0,0 +1,490 @@
+import { describe, expect, it } from "vitest";
+import { FakeSpace, ids } from "../../test/mocks";
+import {
+  buildReferenceInformation,
+  fetchReferencesIteratively,
+  ICrawlOptions,
+} from "./crawler";
+
+describe("fetchReferencesIteratively", () => {
+  it("collects entries and assets at every depth", async () => {
+    const space = new FakeSpace();
+    space.addAsset("image");
+    space.addEntry("card", {
+      links: { image: [{ linkType: "Asset", id: "image" }] },
+    });
+    space.addEntry("section", {
+      links: { cards: [{ linkType: "Entry", id: "card" }] },
+    });
+    space.addEntry("page", {
+      contentType: "page",
+      links: { sections: [{ linkType: "Entry", id: "section" }] },
+    });
+
+    const references = await fetchReferencesIteratively(space, "page", []);
+
+    expect(ids(references.entries)).toEqual(["card", "section"]);
+    expect(ids(references.assets)).toEqual(["image"]);
+    expect(references.errors).toEqual([]);
+    expect(references.links).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ parentId: "page", id: "section" }),
+        expect.objectContaining({ parentId: "section", id: "card" }),
+        expect.objectContaining({
+          parentId: "card",
+          id: "image",
+          linkType: "Asset",
+        }),
+      ])
+    );
+  });
+
+  it("fetches each entry once when entries link to each other", async () => {
+    const space = new FakeSpace();
+    space.addEntry("a", { links: { next: [{ linkType: "Entry", id: "b" }] } });
+    space.addEntry("b", { links: { next: [{ linkType: "Entry", id: "a" }] } });
+    space.addEntry("page", {
+      links: { body: [{ linkType: "Entry", id: "a" }] },
+    });
+
+    const references = await fetchReferencesIteratively(space, "page", []);
+
+    expect([...space.referenceRequests].sort()).toEqual(["a", "b", "page"]);
+    expect(ids(references.entries)).toEqual(["a", "b"]);
+  });
+
+  it("includes entries of excluded content types without following them", async () => {
+    const space = new FakeSpace();
+    space.addEntry("other-page-child");
+    space.addEntry("other-page", {
+      contentType: "page",
+      links: { body: [{ linkType: "Entry", id: "other-page-child" }] },
+    });
+    space.addEntry("page", {
+      links: { related: [{ linkType: "Entry", id: "other-page" }] },
+    });
+
+    const references = await fetchReferencesIteratively(space, "page", [
+      "page",
+    ]);
+
+    expect(ids(references.entries)).toEqual(["other-page"]);
+    expect(space.referenceRequests).toEqual(["page"]);
+  });
+
+  it("reports links that can't be resolved and keeps going after failed requests", async () => {
+    const space = new FakeSpace();
+    space.addEntry("broken");
+    space.addEntry("fine");
+    space.addEntry("page", {
+      links: {
+        body: [
+          { linkType: "Entry", id: "missing" },
+          { linkType: "Entry", id: "broken" },
+          { linkType: "Entry", id: "fine" },
+        ],
+      },
+    });
+    space.brokenReferences.add("broken");
+
+    const progress: { processed: number; total: number }[] = [];
+    const references = await fetchReferencesIteratively(
+      space,
+      "page",
+      [],
+      (update) => progress.push(update)
+    );
+
+    expect(ids(references.entries)).toEqual(["broken", "fine"]);
+    expect(references.errors).toHaveLength(2);
+    expect(references.errors[0]).toMatchObject({
+      sys: { id: "notResolvable" },
+      details: { linkType: "Entry", id: "missing" },
+    });
+    expect(references.errors[1]).toMatchObject({ sys: { id: "broken" } });
+    expect(progress[progress.length - 1]).toEqual({ processed: 3, total: 3 });
+  });
+
+  it("records links the response leaves out without an error", async () => {
+    const space = new FakeSpace();
+    space.addEntry("card");
+    space.addEntry("page", {
+      links: {
+        body: [
+          { linkType: "Entry", id: "card" },
+          { linkType: "Entry", id: "vanished" },
+        ],
+      },
+    });
+    space.omitted.add("Entry:vanished");
+
+    const references = await fetchReferencesIteratively(space, "page", []);
+
+    expect(references.errors).toEqual([]);
+    expect(references.missingLinks).toEqual([
+      expect.objectContaining({ parentId: "page", id: "vanished" }),
+    ]);
+  });
+});
+
+describe("link rules", () => {
+  // An article with a hero, a body with embedded blocks, and a list of
+  // related articles which link on to the rest of the site
+  function createArticleSpace() {
+    const space = new FakeSpace();
+    space.addEntry("quote");
+    space.addEntry("block", {
+      links: { quote: [{ linkType: "Entry", id: "quote" }] },
+    });
+    space.addEntry("elsewhere");
+    space.addEntry("other-article", {
+      contentType: "article",
+      links: { hero: [{ linkType: "Entry", id: "elsewhere" }] },
+    });
+    space.addEntry("hero", {
+      links: { image: [{ linkType: "Asset", id: "image" }] },
+    });
+    space.addAsset("image");
+    space.addEntry("article", {
+      contentType: "article",
+      links: {
+        hero: [{ linkType: "Entry", id: "hero" }],
+        related: [{ linkType: "Entry", id: "other-article" }],
+      },
+      richText: { body: ["block"] },
+    });
+    return space;
+  }
+
+  const crawl = (space: FakeSpace, options: ICrawlOptions) =>
+    fetchReferencesIteratively(space, "article", [], undefined, options);
+
+  it("follows every link field by default, rich text included", async () => {
+    const references = await crawl(createArticleSpace(), {});
+
+    expect(ids(references.entries)).toEqual([
+      "block",
+      "elsewhere",
+      "hero",
+      "other-article",
+      "quote",
+    ]);
+  });
+
+  it("includes, or ignores, the links of fields as configured", async () => {
+    const space = createArticleSpace();
+
+    const references = await crawl(space, {
+      linkRules: { article: { related: "include", body: "ignore" } },
+    });
+
+    expect(ids(references.entries)).toEqual(["hero", "other-article"]);
+    expect(ids(references.assets)).toEqual(["image"]);
+    expect(space.referenceRequests).not.toContain("other-article");
+  });
+
+  it("stops following links below the maximum depth", async () => {
+    const space = createArticleSpace();
+
+    const references = await crawl(space, { maxDepth: 1 });
+
+    expect(ids(references.entries)).toEqual(["block", "hero", "other-article"]);
+    expect(references.assets).toEqual([]);
+    expect(space.referenceRequests).toEqual(["article"]);
+  });
+
+  it("keeps nested references only while no rules are set", async () => {
+    const space = createArticleSpace();
+    // Like a references response holding more than one level of includes
+    const getReferences = space.getReferences.bind(space);
+    space.getReferences = async (entryId) => {
+      const references = await getReferences(entryId);
+      if (entryId === "article") {
+        references.includes!.Entry!.push(space.entries.get("elsewhere")!);
+      }
+      return references;
+    };
+    const crawl = async (options: ICrawlOptions) =>
+      ids(
+        (
+          await fetchReferencesIteratively(
+            space,
+            "article",
+            ["article"],
+            undefined,
+            options
+          )
+        ).entries
+      );
+
+    expect(await crawl({})).toContain("elsewhere");
+    expect(
+      await crawl({ linkRules: { article: { related: "include" } } })
+    ).not.toContain("elsewhere");
+    expect(await crawl({ maxDepth: 5 })).not.toContain("elsewhere");
+  });
+
+  it("follows an entry linked from a followed and an ignored field", async () => {
+    const space = createArticleSpace();
+    space.addEntry("article", {
+      contentType: "article",
+      links: {
+        hero: [{ linkType: "Entry", id: "hero" }],
+        related: [{ linkType: "Entry", id: "hero" }],
+      },
+    });
+
+    const references = await crawl(space, {
+      linkRules: { article: { related: "ignore" } },
+    });
+
+    expect(ids(references.entries)).toEqual(["hero"]);
+    expect(ids(references.assets)).toEqual(["image"]);
+  });
+});
+
+describe("buildReferenceInformation", () => {
+  it("sorts dependencies by publishing state", async () => {
+    const space = new FakeSpace();
+    space.addAsset("new-image");
+    space.addAsset("live-image", "published");
+    space.addEntry("draft");
+    space.addEntry("changed", { state: "changed" });
+    space.addEntry("newer", {
+      state: "published",
+      publishedAt: "2024-06-01T00:00:00Z",
+    });
+    const page = space.addEntry("page", {
+      state: "published",
+      links: {
+        body: [
+          { linkType: "Entry", id: "draft" },
+          { linkType: "Entry", id: "changed" },
+          { linkType: "Entry", id: "newer" },
+        ],
+        images: [
+          { linkType: "Asset", id: "new-image" },
+          { linkType: "Asset", id: "live-image" },
+        ],
+      },
+    });
+
+    const information = buildReferenceInformation(
+      page.sys,
+      await fetchReferencesIteratively(space, "page", [])
+    );
+
+    expect(information.published).toBe(false);
+    expect(ids(information.draftEntries)).toEqual(["draft"]);
+    expect(ids(information.updatedEntries)).toEqual(["changed"]);
+    expect(ids(information.outOfDateEntries)).toEqual(["newer"]);
+    expect(ids(information.draftAssets)).toEqual(["new-image"]);
+    expect(information.updatedAssetCount).toBe(0);
+    expect(information.errorCount).toBe(0);
+    expect(information.parentPaths.get("Entry:draft")).toEqual(["page"]);
+  });
+
+  it("counts a published page with published dependencies as published", async () => {
+    const space = new FakeSpace();
+    space.addEntry("child", { state: "published" });
+    const page = space.addEntry("page", {
+      state: "published",
+      links: { body: [{ linkType: "Entry", id: "child" }] },
+    });
+
+    const information = buildReferenceInformation(
+      page.sys,
+      await fetchReferencesIteratively(space, "page", [])
+    );
+
+    expect(information.published).toBe(true);
+    expect(information.draftEntryCount + information.updatedEntryCount).toBe(0);
+  });
+
+  it("keeps archived entities apart from drafts", async () => {
+    const space = new FakeSpace();
+    space.archivedIncluded = true;
+    space.addAsset("old-image", "archived");
+    space.addEntry("old-card", { state: "archived" });
+    const page = space.addEntry("page", {
+      links: {
+        body: [{ linkType: "Entry", id: "old-card" }],
+        image: [{ linkType: "Asset", id: "old-image" }],
+      },
+    });
+
+    const information = buildReferenceInformation(
+      page.sys,
+      await fetchReferencesIteratively(space, "page", [])
+    );
+
+    expect(information.draftEntryCount + information.draftAssetCount).toBe(0);
+    expect(ids(information.archivedEntries)).toEqual(["old-card"]);
+    expect(ids(information.archivedAssets)).toEqual(["old-image"]);
+  });
+});
+
+describe("parallel crawl", () => {
+  // A page with sections sharing some of their cards, a broken link and
+  // an excluded entry, to compare crawl results in detail
+  function createWideSpace() {
+    const space = new FakeSpace();
+    space.addAsset("image");
+    space.addEntry("other-page", { contentType: "page" });
+    for (let i = 0; i < 6; i++) {
+      space.addEntry(`card-${i}`, {
+        links: { image: [{ linkType: "Asset", id: "image" }] },
+      });
+    }
+    for (let i = 0; i < 5; i++) {
+      space.addEntry(`section-${i}`, {
+        links: {
+          cards: [
+            { linkType: "Entry", id: `card-${i}` },
+            { linkType: "Entry", id: `card-${i + 1}` },
+          ],
+          related: [{ linkType: "Entry", id: "other-page" }],
+        },
+      });
+    }
+    space.addEntry("page", {
+      links: {
+        sections: [
+          ...[0, 1, 2, 3, 4].map((i) => ({
+            linkType: "Entry" as const,
+            id: `section-${i}`,
+          })),
+          { linkType: "Entry", id: "missing" },
+        ],
+      },
+    });
+    return space;
+  }
+
+  async function crawl(space: FakeSpace, concurrency: number) {
+    const progress: { processed: number; total: number }[] = [];
+    const references = await fetchReferencesIteratively(
+      space,
+      "page",
+      ["page"],
+      (update) => progress.push(update),
+      { concurrency }
+    );
+    return { references, progress };
+  }
+
+  it("gives the same result as fetching one entry at a time", async () => {
+    const sequentialSpace = createWideSpace();
+    const parallelSpace = createWideSpace();
+
+    const sequential = await crawl(sequentialSpace, 1);
+    const parallel = await crawl(parallelSpace, 4);
+
+    expect(sequentialSpace.maxConcurrentRequests).toBe(1);
+    expect(parallelSpace.maxConcurrentRequests).toBe(4);
+    expect(parallel.references).toEqual(sequential.references);
+    expect(parallel.progress).toEqual(sequential.progress);
+    expect(parallel.progress[parallel.progress.length - 1]).toEqual({
+      processed: 12,
+      total: 12,
+    });
+  });
+
+  it("retries rate limited and failed requests", async () => {
+    const space = createWideSpace();
+    space.referenceFailures.set("section-2", [
+      Object.assign(new Error("Rate limit exceeded"), {
+        status: 429,
+        headers: { "X-Contentful-RateLimit-Reset": "0" },
+      }),
+      Object.assign(new Error("Bad gateway"), { status: 502 }),
+    ]);
+
+    const references = await fetchReferencesIteratively(
+      space,
+      "page",
+      ["page"],
+      undefined,
+      { baseDelayMs: 0 }
+    );
+
+    expect(
+      space.referenceRequests.filter((id) => id === "section-2")
+    ).toHaveLength(3);
+    expect(references.errors).toHaveLength(1);
+    expect(ids(references.entries)).toContain("card-3");
+  });
+
+  it("gives up after the retry limit and on errors that won't go away", async () => {
+    const space = createWideSpace();
+    const serverError = () => Object.assign(new Error("Oops"), { status: 500 });
+    space.referenceFailures.set("section-1", [
+      serverError(),
+      serverError(),
+      serverError(),
+    ]);
+    space.referenceFailures.set("section-3", [
+      Object.assign(new Error("Access denied"), { status: 403 }),
+    ]);
+
+    const references = await fetchReferencesIteratively(
+      space,
+      "page",
+      ["page"],
+      undefined,
+      { baseDelayMs: 0, maxRetries: 2 }
+    );
+
+    const requests = (id: string) =>
+      space.referenceRequests.filter((request) => request === id).length;
+    expect(requests("section-1")).toBe(3);
+    expect(requests("section-3")).toBe(1);
+    expect(references.errors.map((error) => error.sys.id)).toEqual([
+      "notResolvable",
+      "section-1",
+      "section-3",
+    ]);
+  });
+
+  it("stops with an AbortError when cancelled", async () => {
+    const space = createWideSpace();
+    const controller = new AbortController();
+
+    const crawl = fetchReferencesIteratively(
+      space,
+      "page",
+      ["page"],
+      ({ processed }) => {
+        if (processed === 3) {
+          controller.abort();
+        }
+      },
+      { signal: controller.signal }
+    );
+
+    await expect(crawl).rejects.toMatchObject({ name: "AbortError" });
+    const requestCount = space.referenceRequests.length;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(space.referenceRequests).toHaveLength(requestCount);
+    expect(requestCount).toBeLessThan(12);
+  });
+
+  it("stops waiting to retry when cancelled", async () => {
+    const space = createWideSpace();
+    space.referenceFailures.set("page", [
+      Object.assign(new Error("Rate limit exceeded"), {
+        status: 429,
+        headers: { "X-Contentful-RateLimit-Reset": "60" },
+      }),
+    ]);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(
+      fetchReferencesIteratively(space, "page", ["page"], undefined, {
+        signal: controller.signal,
+      })
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(space.referenceRequests).toEqual(["page"]);
+  });
+});
@@ -0,0 +1,415 @@
+import {
+  AssetProps,
+  EntryProps,
+  KeyValueMap,
+  isDraft,
+  isPublished,
+  isUpdated,
+} from "contentful-management";
+import { EntryReferenceProps } from "contentful-management/dist/typings/entities/entry";
+import { IContentClient, IEntitySys } from "./client";
+import {
+  buildParentPaths,
+  entityKey,
+  extractLinks,
+  getEntityKey,
+} from "./links";
+import { getErrorStatus, IRetryOptions, withRetries } from "./retry";
+import { isPublishedAfter } from "./staleness";
+import { IAllReferences, IReferenceInformation } from "./types";
+import { abortable, isAbortError } from "./utils";
+
+//const debug = console.log;
+const debug = (...args: any[]) => {};
+
+// Some value of a localized field, whatever the space's locales are
+const firstValue = (field: Record<string, unknown> | undefined) =>
+  field && Object.values(field)[0];
+
+// contentful-management only exports this check from its plain client
+const isArchived = (entity: { sys: { archivedVersion?: number } }) =>
+  !!entity.sys.archivedVersion;
+
+export const DEFAULT_CRAWL_CONCURRENCY = 4;
+
+// How links in a field are handled: "follow" includes the linked entity
+// and crawls its links too, "include" only includes it, "ignore" leaves it
+// out altogether
+export type LinkMode = "follow" | "include" | "ignore";
+
+// Content type ID → field ID → how the field's links (rich text embeds and
+// inline links included) are handled. Fields not listed are followed.
+export type LinkRules = Record<string, Record<string, LinkMode>>;
+
+const LINK_MODE_RANK: Record<LinkMode, number> = {
+  ignore: 0,
+  include: 1,
+  follow: 2,
+};
+
+export interface ICrawlOptions extends IRetryOptions {
+  // Maximum number of references requests in flight at once
+  concurrency?: number;
+  linkRules?: LinkRules;
+  // Levels of links followed from the root entry; entities at the last
+  // level are included but not crawled. 0 or unset is unlimited.
+  maxDepth?: number;
+}
+
+// How each entity an entry links to directly is handled, keyed by
+// `entityKey`. An entity linked from several fields gets the most
+// permissive of their modes.
+function getLinkModes(
+  entry: EntryProps<KeyValueMap>,
+  linkRules: LinkRules = {}
+): Map<string, LinkMode> {
+  const fieldRules = linkRules[entry.sys.contentType.sys.id] ?? {};
+  const modes = new Map<string, LinkMode>();
+  for (const link of extractLinks(entry)) {
+    const mode = fieldRules[link.fieldId] ?? "follow";
+    const key = entityKey(link.linkType, link.id);
+    const current = modes.get(key);
+    if (!current || LINK_MODE_RANK[mode] > LINK_MODE_RANK[current]) {
+      modes.set(key, mode);
+    }
+  }
+  return modes;
+}
+
+type ReferencesResult =
+  { references: EntryReferenceProps } | { error: unknown };
+
+// Function to iteratively fetch references with improved deduplication.
+// Several root entries are crawled together, so anything they share is
+// fetched once. Entities an entry links to directly are handled as
+// `options.linkRules` and `options.maxDepth` allow. Without either, the
+// rest of its references are kept and followed too; with them, those are
+// left to the crawl of the entries linking to them. Aborting
+// `options.signal` stops the crawl with an "AbortError" instead of
+// returning partial results.
+export async function fetchReferencesIteratively(
+  client: IContentClient,
+  entryId: string | string[],
+  excludedContentTypes: string[],
+  setProgress?: (progress: { processed: number; total: number }) => void,
+  options: ICrawlOptions = {}
+): Promise<IAllReferences> {
+  const concurrency = Math.max(
+    1,
+    options.concurrency ?? DEFAULT_CRAWL_CONCURRENCY
+  );
+
+  // Initialize the collection of all references
+  const allReferences: IAllReferences = {
+    entries: [],
+    assets: [],
+    errors: [],
+    links: [],
+    missingLinks: [],
+    processedEntryIds: new Set<string>(),
+  };
+
+  // Queue of entries to process
+  const rootIds = [...new Set(Array.isArray(entryId) ? entryId : [entryId])];
+  const entriesToProcess: string[] = [...rootIds];
+
+  // Set to track entries that have been added to the queue
+  const entriesQueued = new Set<string>(rootIds);
+  // Levels of links between the root entry and each queued entry
+  const depths = new Map<string, number>(rootIds.map((id) => [id, 0]));
+  const maxDepth = options.maxDepth || Infinity;
+  // How entities an entry doesn't link to directly are handled
+  const indirectMode: LinkMode =
+    Object.keys(options.linkRules ?? {}).length > 0 || maxDepth < Infinity
+      ? "ignore"
+      : "follow";
+
+  // Sets to track unique entry and asset IDs already added to our collections
+  const trackedEntryIds = new Set<string>();
+  const trackedAssetIds = new Set<string>();
+
+  // Entries whose fields have already been scanned for links
+  const linkedEntryIds = new Set<string>();
+  const recordLinks = (entry: EntryProps<KeyValueMap>) => {
+    if (!linkedEntryIds.has(entry.sys.id)) {
+      linkedEntryIds.add(entry.sys.id);
+      allReferences.links.push(...extractLinks(entry));
+    }
+  };
+
+  // Requests for the front of the queue run ahead, up to `concurrency` at
+  // a time, but their results are handled strictly in queue order so the
+  // crawl comes out exactly as if entries were fetched one by one. Errors
+  // are kept as values until their turn comes.
+  const requests = new Map<string, Promise<ReferencesResult>>();
+  const startRequests = () => {
+    for (const id of entriesToProcess.slice(0, concurrency)) {
+      if (!requests.has(id) && !allReferences.processedEntryIds.has(id)) {
+        requests.set(
+          id,
+          withRetries(() => client.getReferences(id), options).then(
+            (references) => ({ references }),
+            (error) => ({ error })
+          )
+        );
+      }
+    }
+  };
+
+  // Counters for progress
+  let processed = 0;
+  let total = rootIds.length; // Start with the root entries
+
+  // Process the queue until it's empty
+  while (entriesToProcess.length > 0) {
+    options.signal?.throwIfAborted();
+    startRequests();
+
+    // Get the next entry to process
+    const currentEntryId = entriesToProcess.shift()!;
+
+    try {
+      // Skip if we've already processed this entry
+      if (allReferences.processedEntryIds.has(currentEntryId)) {
+        continue;
+      }
+
+      // Mark this entry as processed
+      allReferences.processedEntryIds.add(currentEntryId);
+
+      // Wait for the references of this entry
+      const result = await abortable(
+        requests.get(currentEntryId)!,
+        options.signal
+      );
+      requests.delete(currentEntryId);
+      if ("error" in result) {
+        throw result.error;
+      }
+      const { references } = result;
+
+      // Update progress counters
+      processed++;
+      if (setProgress) {
+        setProgress({ processed, total });
+      }
+
+      if (!references) {
+        continue;
+      }
+
+      debug("references", references);
+
+      // Record the parent→child edges of the entry itself
+      const linkModes = new Map<string, LinkMode>();
+      for (const item of references.items ?? []) {
+        recordLinks(item);
+        getLinkModes(item, options.linkRules).forEach((mode, key) =>
+          linkModes.set(key, mode)
+        );
+      }
+      const getLinkMode = (type: string, id: string) =>
+        linkModes.get(entityKey(type, id)) ?? indirectMode;
+      const depth = depths.get(currentEntryId) ?? 0;
+
+      // Add any errors, except for links that are ignored
+      for (const error of references.errors ?? []) {
+        const details = error.details as { linkType?: string; id?: string };
+        if (
+          !details?.linkType ||
+          !details.id ||
+          linkModes.get(entityKey(details.linkType, details.id)) !== "ignore"
+        ) {
+          allReferences.errors.push(error);
+        }
+      }
+
+      // Links the response says nothing about: neither included nor
+      // reported as errors. They break on the live site all the same.
+      const returned = new Set(
+        [
+          ...(references.includes?.Entry ?? []),
+          ...(references.includes?.Asset ?? []),
+        ].map(getEntityKey)
+      );
+      for (const error of references.errors ?? []) {
+        const details = error.details as { linkType?: string; id?: string };
+        if (details?.linkType && details.id) {
+          returned.add(entityKey(details.linkType, details.id));
+        }
+      }
+      for (const item of references.items ?? []) {
+        for (const link of extractLinks(item)) {
+          const key = entityKey(link.linkType, link.id);
+          if (
+            !returned.has(key) &&
+            getLinkMode(link.linkType, link.id) !== "ignore"
+          ) {
+            allReferences.missingLinks.push(link);
+          }
+        }
+      }
+
+      // Process assets
+      if (references.includes?.Asset) {
+        for (const asset of references.includes.Asset) {
+          if (getLinkMode("Asset", asset.sys.id) === "ignore") {
+            continue;
+          }
+          debug(
+            `Looking at asset ${asset.sys.id}: ${firstValue(
+              asset.fields.title
+            )} ${isPublished(asset)}`
+          );
+          const assetId = asset.sys.id;
+          // Check if we already have this asset using the Set for O(1) lookup
+          if (!trackedAssetIds.has(assetId)) {
+            allReferences.assets.push(asset);
+            trackedAssetIds.add(assetId);
+          }
+        }
+      }
+
+      // Process entries
+      const entries = references.includes?.Entry || [];
+
+      // Add entries to our collection (if not already there)
+      for (const entry of entries) {
+        const linkMode = getLinkMode("Entry", entry.sys.id);
+        if (linkMode === "ignore") {
+          continue;
+        }
+        debug(
+          `Looking at entry ${entry.sys.id}: ${entry.sys.contentType.sys.id} ${firstValue(
+            Object.values(entry.fields)[0]
+          )} ${isPublished(entry)}`
+        );
+        const entryId = entry.sys.id;
+        // Use the Set for O(1) lookup instead of array.some() which is O(n)
+        if (!trackedEntryIds.has(entryId)) {
+          allReferences.entries.push(entry);
+          trackedEntryIds.add(entryId);
+        }
+        recordLinks(entry);
+
+        // Queue up this entry for processing if it's not excluded and not already queued
+        const contentType = entry.sys.contentType.sys.id;
+        if (
+          linkMode === "follow" &&
+          depth + 1 < maxDepth &&
+          !excludedContentTypes.includes(contentType) &&
+          !entriesQueued.has(entryId)
+        ) {
+          entriesToProcess.push(entryId);
+          entriesQueued.add(entryId);
+          depths.set(entryId, depth + 1);
+          total++; // Increment total count for progress tracking
+
+          // Update progress
+          if (setProgress) {
+            setProgress({ processed, total });
+          }
+        }
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error(
+        "Error fetching references for entry",
+        currentEntryId,
+        ":",
+        error
+      );
+      // Add a generic error
+      allReferences.errors.push({
+        details: {
+          errors: [{ message: `Error fetching references: ${error}` }],
+          status: getErrorStatus(error),
+        },
+        sys: { id: currentEntryId, type: "Entry" },
+      } as any);
+
+      // Update progress
+      processed++;
+      if (setProgress) {
+        setProgress({ processed, total });
+      }
+    }
+  }
+
+  return allReferences;
+}
+
+// Sort the crawl results by publishing state, relative to the page. For a
+// crawl of several pages, an entity is out of date if it was published
+// after the page it is closest to.
+export function buildReferenceInformation(
+  entrySys: IEntitySys | IEntitySys[],
+  allReferences: IAllReferences
+): IReferenceInformation {
+  const roots = Array.isArray(entrySys) ? entrySys : [entrySys];
+  const published = roots.every(
+    (sys) => isPublished({ sys } as any) && !isUpdated({ sys } as any)
+  );
+  const parentPaths = buildParentPaths(
+    roots.map((sys) => sys.id),
+    allReferences.links
+  );
+  const publishedDates = new Map(roots.map((sys) => [sys.id, sys.publishedAt]));
+  const isStale = (e: EntryProps<KeyValueMap> | AssetProps) => {
+    const rootId = parentPaths.get(getEntityKey(e))?.[0] ?? roots[0].id;
+    return isPublishedAfter(e.sys.publishedAt, publishedDates.get(rootId));
+  };
+  const errors = allReferences.errors;
+  const errorCount = errors?.length ?? 0;
+
+  const isPublishable = (e: EntryProps<KeyValueMap> | AssetProps) =>
+    isDraft(e) && !isArchived(e);
+
+  const entries = allReferences.entries;
+  const entryCount = entries?.length ?? 0;
+  const draftEntries = entries?.filter(isPublishable) ?? [];
+  const updatedEntries = entries?.filter(isUpdated) ?? [];
+  const draftEntryCount = draftEntries.length;
+  const updatedEntryCount = updatedEntries.length;
+
+  const assets = allReferences.assets;
+  const assetCount = assets?.length ?? 0;
+  const draftAssets = assets?.filter(isPublishable) ?? [];
+  const draftAssetCount = draftAssets.length;
+  const updatedAssets = assets?.filter(isUpdated) ?? [];
+  const updatedAssetCount = updatedAssets.length;
+
+  const assetsPublishedAfter = assets?.filter(isStale);
+  const entriesPublishedAfter = entries?.filter(isStale);
+  const isOutOfDate =
+    (assetsPublishedAfter?.length ?? 0) > 0 ||
+    (entriesPublishedAfter?.length ?? 0) > 0;
+
+  debug({ published, assetsPublishedAfter, entriesPublishedAfter });
+  return {
+    published: published && !isOutOfDate,
+    errors,
+    errorCount,
+    entryCount,
+    entries,
+    draftEntries,
+    updatedEntries,
+    outOfDateEntries: entriesPublishedAfter ?? [],
+    draftEntryCount,
+    updatedEntryCount,
+    assetCount,
+    assets,
+    draftAssets,
+    draftAssetCount,
+    updatedAssets,
+    outOfDateAssets: assetsPublishedAfter ?? [],
+    updatedAssetCount,
+    archivedEntries: entries?.filter(isArchived) ?? [],
+    archivedAssets: assets?.filter(isArchived) ?? [],
+    missingLinks: allReferences.missingLinks,
+    links: allReferences.links,
+    parentPaths,
+  };
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from "vitest";
+import { CMAClient } from "@contentful/app-sdk";
+import { FakeSpace } from "../../test/mocks";
+import { diffFields, findPendingChanges } from "./diff";
+
+const link = (linkType: string, id: string) => ({
+  sys: { type: "Link", linkType, id },
+});
+
+describe("diffFields", () => {
+  it("lists added, removed and changed values per locale", () => {
+    const changes = diffFields(
+      {
+        title: { "en-US": "Hello", "de-DE": "Hallo" },
+        subtitle: { "en-US": "Old" },
+        count: { "en-US": 1 },
+      },
+      {
+        title: { "en-US": "Hello there", "de-DE": "Hallo" },
+        count: { "en-US": 1 },
+        body: { "en-US": "x".repeat(70) },
+      }
+    );
+
+    expect(changes).toEqual([
+      {
+        fieldId: "title",
+        locale: "en-US",
+        kind: "changed",
+        before: "Hello",
+        after: "Hello there",
+      },
+      {
+        fieldId: "subtitle",
+        locale: "en-US",
+        kind: "removed",
+        before: "Old",
+        after: undefined,
+      },
+      {
+        fieldId: "body",
+        locale: "en-US",
+        kind: "added",
+        before: undefined,
+        after: `${"x".repeat(60)}…`,
+      },
+    ]);
+  });
+
+  it("reports links added to and removed from a field", () => {
+    const [change] = diffFields(
+      {
+        body: {
+          "en-US": [link("Entry", "kept"), link("Entry", "dropped")],
+        },
+      },
+      {
+        body: {
+          "en-US": [link("Entry", "kept"), link("Asset", "image")],
+        },
+      }
+    );
+
+    expect(change).toMatchObject({
+      fieldId: "body",
+      kind: "changed",
+      before: "2 items",
+      after: "2 items",
+      addedLinks: [{ linkType: "Asset", id: "image" }],
+      removedLinks: [{ linkType: "Entry", id: "dropped" }],
+    });
+  });
+
+  it("ignores fields that didn't change", () => {
+    const fields = { title: { "en-US": "Same" }, list: { "en-US": [1, 2] } };
+    expect(diffFields(fields, structuredClone(fields))).toEqual([]);
+  });
+});
+
+describe("findPendingChanges", () => {
+  it("diffs entries with their published versions and sums up assets", async () => {
+    const space = new FakeSpace();
+    const entry = space.addEntry("promo", { state: "changed" });
+    const published = structuredClone(entry);
+    published.fields.title = { "en-US": "Old promo" };
+    const asset = space.addAsset("image", "changed");
+    asset.fields.file = {
+      "en-US": { fileName: "hero.png", contentType: "image/png" },
+    } as typeof asset.fields.file;
+    const getPublished = vi.fn().mockResolvedValue({ items: [published] });
+    const cma = { entry: { getPublished } } as unknown as CMAClient;
+
+    const changes = await findPendingChanges(cma, [entry], [asset], "en-US");
+
+    expect(getPublished).toHaveBeenCalledWith({
+      query: { "sys.id[in]": "promo", limit: 100 },
+    });
+    expect(changes.get("Entry:promo")).toEqual({
+      fields: [
+        {
+          fieldId: "title",
+          locale: "en-US",
+          kind: "changed",
+          before: "Old promo",
+          after: "promo",
+        },
+      ],
+    });
+    expect(changes.get("Asset:image")).toEqual({
+      fields: [],
+      editsSincePublish: 1,
+      file: "hero.png (image/png)",
+    });
+  });
+
+  it("fetches the published files of updated assets", async () => {
+    const space = new FakeSpace();
+    const asset = space.addAsset("image", "changed");
+    asset.fields.file = {
+      "en-US": { fileName: "hero.png", contentType: "image/png" },
+    } as typeof asset.fields.file;
+    const published = structuredClone(asset);
+    published.fields.file = {
+      "en-US": { fileName: "old-hero.jpg", contentType: "image/jpeg" },
+    } as typeof asset.fields.file;
+    const get = vi.fn().mockResolvedValue({ items: [published] });
+    const cma = { raw: { get } } as unknown as CMAClient;
+
+    const changes = await findPendingChanges(cma, [], [asset], "en-US");
+
+    expect(get).toHaveBeenCalledWith(
+      "/spaces/fake-space/environments/master/public/assets",
+      { params: { "sys.id[in]": "image", limit: 100 } }
+    );
+    expect(changes.get("Asset:image")).toMatchObject({
+      file: "hero.png (image/png)",
+      publishedFile: "old-hero.jpg (image/jpeg)",
+    });
+  });
+});
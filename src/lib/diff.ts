@@ -0,0 +1,191 @@
+import {
+  AssetProps,
+  CollectionProp,
+  EntryProps,
+  KeyValueMap,
+} from "contentful-management";
+import { ContentManagementClient } from "./client";
+import { LinkedEntityType, collectLinks, entityKey } from "./links";
+import { chunk } from "./utils";
+
+const IDS_PER_QUERY = 100;
+const PREVIEW_LENGTH = 60;
+
+export interface ILinkRef {
+  linkType: LinkedEntityType;
+  id: string;
+}
+
+export interface IFieldChange {
+  fieldId: string;
+  locale: string;
+  kind: "added" | "removed" | "changed";
+  // Short text versions of plain values, for display
+  before?: string;
+  after?: string;
+  // Set for link and rich text fields
+  addedLinks?: ILinkRef[];
+  removedLinks?: ILinkRef[];
+}
+
+export interface IEntityChanges {
+  fields: IFieldChange[];
+  // Set for assets, which are summed up rather than diffed field by field
+  editsSincePublish?: number;
+  file?: string;
+  // The file of the published asset. Left out when it couldn't be fetched.
+  publishedFile?: string;
+}
+
+function findLinks(value: unknown): ILinkRef[] {
+  const found: ILinkRef[] = [];
+  collectLinks(value, found);
+  return found;
+}
+
+function isEqual(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function preview(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value === "object") {
+    if ((value as any).nodeType === "document") {
+      return "rich text";
+    }
+    return Array.isArray(value) ? `${value.length} items` : "object";
+  }
+  const text = String(value);
+  return text.length > PREVIEW_LENGTH
+    ? `${text.substring(0, PREVIEW_LENGTH)}…`
+    : text;
+}
+
+function diffLinks(before: ILinkRef[], after: ILinkRef[]) {
+  const has = (links: ILinkRef[], link: ILinkRef) =>
+    links.some((l) => l.linkType === link.linkType && l.id === link.id);
+  return {
+    addedLinks: after.filter((link) => !has(before, link)),
+    removedLinks: before.filter((link) => !has(after, link)),
+  };
+}
+
+// Compare two sets of localized fields, field by field and locale by locale
+export function diffFields(
+  published: KeyValueMap,
+  draft: KeyValueMap
+): IFieldChange[] {
+  const changes: IFieldChange[] = [];
+  const fieldIds = new Set([
+    ...Object.keys(published ?? {}),
+    ...Object.keys(draft ?? {}),
+  ]);
+  for (const fieldId of fieldIds) {
+    const before: Record<string, unknown> = published?.[fieldId] ?? {};
+    const after: Record<string, unknown> = draft?.[fieldId] ?? {};
+    const locales = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const locale of locales) {
+      const oldValue = before[locale];
+      const newValue = after[locale];
+      if (isEqual(oldValue, newValue)) {
+        continue;
+      }
+      const kind =
+        oldValue === undefined
+          ? "added"
+          : newValue === undefined
+            ? "removed"
+            : "changed";
+      const oldLinks = findLinks(oldValue);
+      const newLinks = findLinks(newValue);
+      const change: IFieldChange = { fieldId, locale, kind };
+      if (oldLinks.length > 0 || newLinks.length > 0) {
+        Object.assign(change, diffLinks(oldLinks, newLinks));
+      }
+      // Reordering links or editing rich text around them still counts
+      change.before = preview(oldValue);
+      change.after = preview(newValue);
+      changes.push(change);
+    }
+  }
+  return changes;
+}
+
+function describeFile(asset: AssetProps, locale: string) {
+  const files = asset.fields.file ?? {};
+  const file = files[locale] ?? Object.values(files)[0];
+  if (!file) {
+    return undefined;
+  }
+  return `${file.fileName} (${file.contentType})`;
+}
+
+// The CMA has no typed endpoint for published assets, so they are fetched
+// with a raw request when the client allows it
+async function getPublishedAssets(
+  cma: ContentManagementClient,
+  assets: AssetProps[]
+): Promise<AssetProps[]> {
+  if (!cma.raw || assets.length === 0) {
+    return [];
+  }
+  const { space, environment } = assets[0].sys;
+  const { items } = await cma.raw.get<CollectionProp<AssetProps>>(
+    `/spaces/${space.sys.id}/environments/${environment.sys.id}/public/assets`,
+    {
+      params: {
+        "sys.id[in]": assets.map((asset) => asset.sys.id).join(","),
+        limit: IDS_PER_QUERY,
+      },
+    }
+  );
+  return items;
+}
+
+// Fetch the published versions of the updated entries and diff them with
+// the current drafts. Keyed by `entityKey`.
+export async function findPendingChanges(
+  cma: ContentManagementClient,
+  updatedEntries: EntryProps<KeyValueMap>[],
+  updatedAssets: AssetProps[],
+  locale: string
+): Promise<Map<string, IEntityChanges>> {
+  const changes = new Map<string, IEntityChanges>();
+
+  for (const entries of chunk(updatedEntries, IDS_PER_QUERY)) {
+    const { items } = await cma.entry.getPublished({
+      query: {
+        "sys.id[in]": entries.map((entry) => entry.sys.id).join(","),
+        limit: IDS_PER_QUERY,
+      },
+    });
+    for (const entry of entries) {
+      const published = items.find((item) => item.sys.id === entry.sys.id);
+      if (published) {
+        changes.set(entityKey("Entry", entry.sys.id), {
+          fields: diffFields(published.fields, entry.fields),
+        });
+      }
+    }
+  }
+
+  for (const assets of chunk(updatedAssets, IDS_PER_QUERY)) {
+    const items = await getPublishedAssets(cma, assets);
+    for (const asset of assets) {
+      const published = items.find((item) => item.sys.id === asset.sys.id);
+      changes.set(entityKey("Asset", asset.sys.id), {
+        fields: [],
+        editsSincePublish: Math.max(
+          asset.sys.version - (asset.sys.publishedVersion ?? 0) - 1,
+          1
+        ),
+        file: describeFile(asset, locale),
+        publishedFile: published && describeFile(published, locale),
+      });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,64 @@
+import { ContentType } from "@contentful/app-sdk";
+import { AssetProps, EntryProps, KeyValueMap } from "contentful-management";
+
+export function getEditorEntry(sys: {
+  type: string;
+  id: string;
+  space: { sys: { id: string } };
+}) {
+  try {
+    const result = `https://app.contentful.com/spaces/${sys.space.sys.id}/${
+      sys.type === "Asset" ? "assets" : "entries"
+    }/${sys.id}`;
+    return result;
+  } catch (error) {
+    console.error("error", error);
+    return "/";
+  }
+}
+
+function getLocalizedValue(
+  localized: Record<string, any> | undefined,
+  locale: string
+): unknown {
+  if (!localized) {
+    return undefined;
+  }
+  return localized[locale] ?? Object.values(localized)[0];
+}
+
+// Human readable name for an entry (its display field) or asset (its title)
+export function getEntityTitle(
+  entity: EntryProps<KeyValueMap> | AssetProps,
+  contentTypes: ContentType[],
+  locale: string
+): string {
+  let value: unknown;
+  if (entity.sys.type === "Asset") {
+    value = getLocalizedValue((entity as AssetProps).fields.title, locale);
+  } else {
+    const entry = entity as EntryProps<KeyValueMap>;
+    const contentType = contentTypes.find(
+      (ct) => ct.sys.id === entry.sys.contentType.sys.id
+    );
+    if (contentType?.displayField) {
+      value = getLocalizedValue(entry.fields[contentType.displayField], locale);
+    }
+  }
+  return typeof value === "string" && value.trim() ? value : "Untitled";
+}
+
+export function getContentTypeName(
+  entity: EntryProps<KeyValueMap> | AssetProps,
+  contentTypes: ContentType[]
+): string {
+  if (entity.sys.type === "Asset") {
+    return "Asset";
+  }
+  const contentTypeId = (entity as EntryProps<KeyValueMap>).sys.contentType.sys
+    .id;
+  return (
+    contentTypes.find((ct) => ct.sys.id === contentTypeId)?.name ??
+    contentTypeId
+  );
+}
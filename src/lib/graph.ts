@@ -0,0 +1,119 @@
+import { EntryProps, KeyValueMap } from "contentful-management";
+import { IReferenceLink } from "./links";
+
+// Entry→entry edges of the reference graph. Assets never link to anything,
+// so they don't take part in ordering.
+export function buildEntryGraph(
+  links: IReferenceLink[]
+): Map<string, string[]> {
+  const graph = new Map<string, string[]>();
+  for (const link of links) {
+    if (!graph.has(link.parentId)) {
+      graph.set(link.parentId, []);
+    }
+    if (link.linkType !== "Entry") {
+      continue;
+    }
+    const children = graph.get(link.parentId)!;
+    if (!children.includes(link.id)) {
+      children.push(link.id);
+    }
+  }
+  return graph;
+}
+
+// Tarjan's algorithm, without recursion so deep pages can't overflow the
+// stack. Components come out in reverse topological order: a component is
+// only emitted after every component it links to.
+export function findStronglyConnectedComponents(
+  nodes: string[],
+  graph: Map<string, string[]>
+): string[][] {
+  let nextIndex = 0;
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+
+  for (const root of nodes) {
+    if (index.has(root)) {
+      continue;
+    }
+    // Each frame is a node and the position of the next child to visit
+    const work: [string, number][] = [[root, 0]];
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const [node, childIndex] = frame;
+      if (childIndex === 0 && !index.has(node)) {
+        index.set(node, nextIndex);
+        lowLink.set(node, nextIndex);
+        nextIndex++;
+        stack.push(node);
+        onStack.add(node);
+      }
+
+      const children = graph.get(node) ?? [];
+      if (childIndex < children.length) {
+        frame[1]++;
+        const child = children[childIndex];
+        if (!index.has(child)) {
+          work.push([child, 0]);
+        } else if (onStack.has(child)) {
+          lowLink.set(node, Math.min(lowLink.get(node)!, index.get(child)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1][0];
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(node)!));
+      }
+      if (lowLink.get(node) === index.get(node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== node);
+        components.push(component);
+      }
+    }
+  }
+  return components;
+}
+
+// Group entries into the order they have to be published in: linked
+// entries before the entries linking to them. Entries that link to each
+// other in a cycle can't be ordered and share a group.
+export function orderForPublishing<T extends EntryProps<KeyValueMap>>(
+  entries: T[],
+  links: IReferenceLink[]
+): T[][] {
+  const graph = buildEntryGraph(links);
+  const byId = new Map(entries.map((entry) => [entry.sys.id, entry]));
+  // Order over the whole graph, so that a published entry between two
+  // pending ones still counts
+  const nodes = [...entries.map((entry) => entry.sys.id), ...graph.keys()];
+  return findStronglyConnectedComponents(nodes, graph)
+    .map((component) =>
+      component
+        .map((id) => byId.get(id))
+        .filter((entry): entry is T => entry !== undefined)
+    )
+    .filter((group) => group.length > 0);
+}
+
+// Cycles (as entry IDs) that include at least one of the given entries
+export function findCycles(
+  entries: EntryProps<KeyValueMap>[],
+  links: IReferenceLink[]
+): string[][] {
+  const graph = buildEntryGraph(links);
+  const ids = new Set(entries.map((entry) => entry.sys.id));
+  return findStronglyConnectedComponents([...graph.keys()], graph).filter(
+    (component) => component.length > 1 && component.some((id) => ids.has(id))
+  );
+}
@@ -0,0 +1,86 @@
+import { CMAClient } from "@contentful/app-sdk";
+import {
+  CollectionProp,
+  EntryProps,
+  KeyValueMap,
+  isPublished,
+} from "contentful-management";
+import { entityKey } from "./links";
+
+// Entities linked from more entries than this are treated as shared
+// without paging through every linking entry
+export const INCOMING_LINK_LIMIT = 1000;
+
+// Bounds for walking up the graph, so a widely shared component can't turn
+// the scan into a crawl of the whole space
+const IMPACT_MAX_DEPTH = 10;
+const IMPACT_MAX_ENTRIES = 500;
+
+type EntityRef = { sys: { type: string; id: string } };
+
+// Entries whose fields link to the entry or asset
+export async function findLinkingEntries(
+  cma: CMAClient,
+  entity: EntityRef,
+  query: Record<string, any> = {}
+): Promise<CollectionProp<EntryProps<KeyValueMap>>> {
+  return cma.entry.getMany({
+    query: {
+      ...(entity.sys.type === "Asset"
+        ? { links_to_asset: entity.sys.id }
+        : { links_to_entry: entity.sys.id }),
+      limit: INCOMING_LINK_LIMIT,
+      ...query,
+    },
+  });
+}
+
+// Published entries of the page content types that include any of the
+// given entities, directly or through other entries. The walk stops at
+// pages: a page linking to another page doesn't embed it.
+export async function findImpactedPages(
+  cma: CMAClient,
+  entities: EntityRef[],
+  pageContentTypes: string[],
+  ignoreIds: string[] = []
+): Promise<EntryProps<KeyValueMap>[]> {
+  const pages = new Map<string, EntryProps<KeyValueMap>>();
+  const visited = new Set<string>(
+    entities.map((entity) => entityKey(entity.sys.type, entity.sys.id))
+  );
+  let frontier = entities;
+
+  for (
+    let depth = 0;
+    depth < IMPACT_MAX_DEPTH &&
+    frontier.length > 0 &&
+    visited.size < IMPACT_MAX_ENTRIES;
+    depth++
+  ) {
+    const next: EntityRef[] = [];
+    for (const entity of frontier) {
+      const { items } = await findLinkingEntries(cma, entity);
+      for (const entry of items) {
+        const key = entityKey("Entry", entry.sys.id);
+        if (visited.has(key)) {
+          continue;
+        }
+        visited.add(key);
+        // Drafts aren't on the live site, nor is anything only they embed
+        if (!isPublished(entry)) {
+          continue;
+        }
+        if (pageContentTypes.includes(entry.sys.contentType.sys.id)) {
+          if (!ignoreIds.includes(entry.sys.id)) {
+            pages.set(entry.sys.id, entry);
+          }
+        } else {
+          next.push(entry);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return [...pages.values()];
+}
@@ -0,0 +1,143 @@
+import { AssetProps, EntryProps, KeyValueMap } from "contentful-management";
+
+export type LinkedEntityType = "Entry" | "Asset";
+
+// A single parent→child edge in the reference graph
+export interface IReferenceLink {
+  parentId: string; // ID of the entry holding the link
+  fieldId: string;
+  locale: string;
+  linkType: LinkedEntityType;
+  id: string; // ID of the linked entry or asset
+}
+
+// Entries and assets have separate ID spaces, so graph lookups are keyed
+// by type and ID
+export function entityKey(type: string, id: string) {
+  return `${type}:${id}`;
+}
+
+// The type and ID an `entityKey` was made of
+export function parseEntityKey(key: string) {
+  const separator = key.indexOf(":");
+  return { type: key.slice(0, separator), id: key.slice(separator + 1) };
+}
+
+export function getEntityKey(entity: EntryProps<KeyValueMap> | AssetProps) {
+  return entityKey(entity.sys.type, entity.sys.id);
+}
+
+export function collectLinks(
+  value: unknown,
+  found: { linkType: LinkedEntityType; id: string }[]
+) {
+  if (!value || typeof value !== "object") {
+    return;
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      collectLinks(item, found);
+    }
+    return;
+  }
+  const sys = (value as { sys?: any }).sys;
+  if (
+    sys?.type === "Link" &&
+    (sys.linkType === "Entry" || sys.linkType === "Asset")
+  ) {
+    found.push({ linkType: sys.linkType, id: sys.id });
+    return;
+  }
+  // Walk into rich text documents (embedded entries, inline links, ...)
+  for (const child of Object.values(value)) {
+    collectLinks(child, found);
+  }
+}
+
+// Find every entry/asset link held in an entry's fields, in every locale
+export function extractLinks(entry: EntryProps<KeyValueMap>): IReferenceLink[] {
+  const links: IReferenceLink[] = [];
+  for (const [fieldId, localized] of Object.entries(entry.fields ?? {})) {
+    for (const [locale, value] of Object.entries(localized ?? {})) {
+      const found: { linkType: LinkedEntityType; id: string }[] = [];
+      collectLinks(value, found);
+      for (const { linkType, id } of found) {
+        links.push({ parentId: entry.sys.id, fieldId, locale, linkType, id });
+      }
+    }
+  }
+  return links;
+}
+
+// Breadth first walk from the root entry (or entries), giving for each
+// reachable entity the IDs of the entries it was reached through (root
+// first, shortest path)
+export function buildParentPaths(
+  rootIds: string | string[],
+  links: IReferenceLink[]
+): Map<string, string[]> {
+  const childrenOf = new Map<string, IReferenceLink[]>();
+  for (const link of links) {
+    const children = childrenOf.get(link.parentId) ?? [];
+    children.push(link);
+    childrenOf.set(link.parentId, children);
+  }
+
+  const roots = Array.isArray(rootIds) ? rootIds : [rootIds];
+  const paths = new Map<string, string[]>();
+  roots.forEach((rootId) => paths.set(entityKey("Entry", rootId), []));
+  const queue = [...roots];
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    const parentPath = paths.get(entityKey("Entry", parentId))!;
+    for (const link of childrenOf.get(parentId) ?? []) {
+      const key = entityKey(link.linkType, link.id);
+      if (paths.has(key)) {
+        continue;
+      }
+      paths.set(key, [...parentPath, parentId]);
+      if (link.linkType === "Entry") {
+        queue.push(link.id);
+      }
+    }
+  }
+  return paths;
+}
+
+// A copy of a field value without its links to the given entity. Rich text
+// embeds of it are dropped; hyperlinks to it are replaced by their text.
+// Returns undefined if nothing is left of the value.
+export function removeLink(
+  value: unknown,
+  linkType: LinkedEntityType,
+  id: string
+): unknown {
+  const isTarget = (link: any) =>
+    link?.sys?.type === "Link" &&
+    link.sys.linkType === linkType &&
+    link.sys.id === id;
+  // What the value turns into: nothing, itself, or (for hyperlinks) the
+  // nodes it wraps
+  const strip = (value: any): unknown[] => {
+    if (!value || typeof value !== "object") {
+      return [value];
+    }
+    if (isTarget(value)) {
+      return [];
+    }
+    if (Array.isArray(value)) {
+      return [value.flatMap(strip)];
+    }
+    if (isTarget(value.data?.target)) {
+      return `${value.nodeType}`.endsWith("hyperlink")
+        ? (value.content ?? []).flatMap(strip)
+        : [];
+    }
+    return [
+      Object.fromEntries(
+        Object.entries(value).map(([name, child]) => [name, strip(child)[0]])
+      ),
+    ];
+  };
+  return strip(value)[0];
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { createSpace, IFakeSpaceLayout } from "../../test/mocks";
+import { fetchReferencesIteratively } from "./crawler";
+import {
+  getCrawledLinkSignature,
+  getLinkSignature,
+  haveDependenciesChanged,
+} from "./liveUpdates";
+
+const link = (linkType: string, id: string) => ({
+  sys: { type: "Link", linkType, id },
+});
+
+const layout: IFakeSpaceLayout = {
+  assets: { image: "draft" },
+  entries: {
+    card: {},
+    page: {
+      links: {
+        body: [{ linkType: "Entry", id: "card" }],
+        hero: [{ linkType: "Asset", id: "image" }],
+      },
+    },
+  },
+};
+
+describe("getLinkSignature", () => {
+  it("ignores order, duplicates and everything but links", () => {
+    expect(
+      getLinkSignature([
+        "Some text",
+        [link("Entry", "b"), link("Entry", "a")],
+        {
+          nodeType: "document",
+          content: [{ data: { target: link("Asset", "x") } }],
+        },
+        link("Entry", "a"),
+      ])
+    ).toBe(
+      getLinkSignature([
+        [link("Asset", "x"), link("Entry", "a"), link("Entry", "b")],
+      ])
+    );
+  });
+
+  it("matches the crawled links of an unchanged entry", async () => {
+    const space = createSpace(layout);
+    const references = await fetchReferencesIteratively(space, "page", []);
+    const page = space.entries.get("page")!;
+
+    const signature = getLinkSignature(
+      Object.values(page.fields).map((field) => field["en-US"])
+    );
+
+    expect(getCrawledLinkSignature(references, "page")).toBe(signature);
+    space.editEntry("page", { body: [] });
+    expect(
+      getLinkSignature(
+        Object.values(page.fields).map((field) => field["en-US"])
+      )
+    ).not.toBe(signature);
+  });
+});
+
+describe("haveDependenciesChanged", () => {
+  it("notices edited, published and deleted dependencies", async () => {
+    const space = createSpace(layout);
+    const check = async (change: () => void) => {
+      const references = await fetchReferencesIteratively(space, "page", []);
+      const before = await haveDependenciesChanged(space, references);
+      change();
+      return [before, await haveDependenciesChanged(space, references)];
+    };
+
+    expect(await check(() => space.editEntry("card"))).toEqual([false, true]);
+    expect(
+      await check(() => space.publishAsset(space.assets.get("image")!))
+    ).toEqual([false, true]);
+    expect(await check(() => space.entries.delete("card"))).toEqual([
+      false,
+      true,
+    ]);
+  });
+
+  it("ignores changes to the entry itself", async () => {
+    const space = createSpace(layout);
+    const references = await fetchReferencesIteratively(space, "page", []);
+
+    space.editEntry("page");
+
+    expect(await haveDependenciesChanged(space, references)).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+import { IContentClient } from "./client";
+import { collectLinks, entityKey, LinkedEntityType } from "./links";
+import { IAllReferences } from "./types";
+
+// Quiet period after the last link change before crawling again, so typing
+// in a field or adding several links in a row only triggers one crawl
+export const LINK_CHANGE_DEBOUNCE_MS = 1500;
+
+function toSignature(links: { linkType: string; id: string }[]) {
+  return [...new Set(links.map(({ linkType, id }) => entityKey(linkType, id)))]
+    .sort()
+    .join(",");
+}
+
+// Canonical form of the entities some field values link to, for telling
+// whether a change to an entry touched its links
+export function getLinkSignature(values: unknown[]): string {
+  const found: { linkType: LinkedEntityType; id: string }[] = [];
+  for (const value of values) {
+    collectLinks(value, found);
+  }
+  return toSignature(found);
+}
+
+// The same for an entry's links as they were when it was crawled
+export function getCrawledLinkSignature(
+  references: IAllReferences,
+  entryId: string
+): string {
+  return toSignature(
+    references.links.filter((link) => link.parentId === entryId)
+  );
+}
+
+// Whether any entity of a crawl was changed, published or removed since.
+// Costs a few list requests rather than a crawl.
+export async function haveDependenciesChanged(
+  client: IContentClient,
+  references: IAllReferences
+): Promise<boolean> {
+  const entities = [...references.entries, ...references.assets];
+  if (entities.length === 0) {
+    return false;
+  }
+  const versions = await client.getVersions(
+    entities.map((entity) => ({
+      linkType: entity.sys.type as LinkedEntityType,
+      id: entity.sys.id,
+    }))
+  );
+  return entities.some(
+    (entity) =>
+      versions.get(entityKey(entity.sys.type, entity.sys.id)) !==
+      entity.sys.version
+  );
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { ContentTypeProps } from "contentful-management";
+import { FakeSpace } from "../../test/mocks";
+import { findMissingLocaleContent } from "./locales";
+
+const locales = {
+  default: "en-US",
+  available: ["en-US", "de-DE", "fr-FR"],
+  optional: { "fr-FR": true },
+};
+
+const contentTypes = [
+  {
+    sys: { id: "component" },
+    fields: [
+      { id: "title", name: "Title", localized: true },
+      { id: "body", name: "Body", localized: true },
+      { id: "image", name: "Image", localized: false },
+    ],
+  },
+] as unknown as ContentTypeProps[];
+
+describe("findMissingLocaleContent", () => {
+  it("lists untranslated localized fields per locale", () => {
+    const space = new FakeSpace();
+    const translated = space.addEntry("translated");
+    translated.fields.title = { "en-US": "Hello", "de-DE": "Hallo" };
+    const partial = space.addEntry("partial");
+    partial.fields.title = { "en-US": "Hello", "de-DE": "Hallo" };
+    partial.fields.body = { "en-US": "Text" };
+    // Non-localized fields only ever have a default locale value
+    partial.fields.image = { "en-US": "image-id" };
+    const asset = space.addAsset("image");
+    asset.fields.file = {
+      "en-US": { fileName: "a.png", contentType: "image/png" },
+    };
+
+    const coverage = findMissingLocaleContent(
+      [translated, partial],
+      [asset],
+      contentTypes,
+      locales
+    );
+
+    expect(coverage.map((c) => [c.locale, c.isOptional])).toEqual([
+      ["de-DE", false],
+      ["fr-FR", true],
+    ]);
+    const missing = (locale: string) =>
+      coverage
+        .find((c) => c.locale === locale)!
+        .missing.map(({ entity, fieldIds }) => [entity.sys.id, fieldIds]);
+    expect(missing("de-DE")).toEqual([
+      ["partial", ["body"]],
+      ["image", ["title", "file"]],
+    ]);
+    expect(missing("fr-FR")).toEqual([
+      ["translated", ["title"]],
+      ["partial", ["title", "body"]],
+      ["image", ["title", "file"]],
+    ]);
+  });
+});
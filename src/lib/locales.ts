@@ -0,0 +1,82 @@
+import {
+  AssetProps,
+  ContentTypeProps,
+  EntryProps,
+  KeyValueMap,
+} from "contentful-management";
+import { ILocaleSettings, isEmpty } from "./validation";
+
+// Fields every asset has, all of them localized
+const ASSET_FIELDS = ["title", "description", "file"];
+
+export interface IMissingLocaleContent {
+  entity: EntryProps<KeyValueMap> | AssetProps;
+  // Localized fields filled in for the default locale but not this one
+  fieldIds: string[];
+}
+
+export interface ILocaleCoverage {
+  locale: string;
+  isOptional: boolean;
+  missing: IMissingLocaleContent[];
+}
+
+function findMissingFields(
+  fields: KeyValueMap,
+  fieldIds: string[],
+  locale: string,
+  defaultLocale: string
+) {
+  return fieldIds.filter(
+    (fieldId) =>
+      !isEmpty(fields[fieldId]?.[defaultLocale]) &&
+      isEmpty(fields[fieldId]?.[locale])
+  );
+}
+
+// For every locale besides the default one, the entries and assets that
+// aren't fully translated: localized fields with content in the default
+// locale and none in that locale. Entries of content types that aren't
+// known are skipped.
+export function findMissingLocaleContent(
+  entries: EntryProps<KeyValueMap>[],
+  assets: AssetProps[],
+  contentTypes: ContentTypeProps[],
+  locales: ILocaleSettings
+): ILocaleCoverage[] {
+  const localizedFields = new Map(
+    contentTypes.map((ct) => [
+      ct.sys.id,
+      ct.fields.filter((field) => field.localized).map((field) => field.id),
+    ])
+  );
+
+  return locales.available
+    .filter((locale) => locale !== locales.default)
+    .map((locale) => {
+      const missing: IMissingLocaleContent[] = [];
+      for (const entry of entries) {
+        const fieldIds = findMissingFields(
+          entry.fields,
+          localizedFields.get(entry.sys.contentType.sys.id) ?? [],
+          locale,
+          locales.default
+        );
+        if (fieldIds.length > 0) {
+          missing.push({ entity: entry, fieldIds });
+        }
+      }
+      for (const asset of assets) {
+        const fieldIds = findMissingFields(
+          asset.fields,
+          ASSET_FIELDS,
+          locale,
+          locales.default
+        );
+        if (fieldIds.length > 0) {
+          missing.push({ entity: asset, fieldIds });
+        }
+      }
+      return { locale, isOptional: !!locales.optional[locale], missing };
+    });
+}
@@ -0,0 +1,82 @@
+import { CMAClient } from "@contentful/app-sdk";
+import { AssetProps, EntryProps, KeyValueMap } from "contentful-management";
+import { findLinkingEntries } from "./incoming";
+import { entityKey, getEntityKey } from "./links";
+
+type Entity = EntryProps<KeyValueMap> | AssetProps;
+
+export interface IOrphans {
+  entries: EntryProps<KeyValueMap>[];
+  assets: AssetProps[];
+}
+
+// IDs of the entries linking to an entity, or undefined when there are too
+// many to be worth listing
+async function findIncomingLinks(
+  cma: CMAClient,
+  entity: Entity
+): Promise<string[] | undefined> {
+  const result = await findLinkingEntries(cma, entity, { select: "sys.id" });
+  if (result.total > result.items.length) {
+    return undefined;
+  }
+  return result.items.map((entry) => entry.sys.id);
+}
+
+// Work out which dependencies are referenced only by the page (directly or
+// through other dependencies that are themselves only referenced by the
+// page). Entries of excluded content types are pages in their own right and
+// never count as orphans.
+export async function findOrphans(
+  cma: CMAClient,
+  rootId: string,
+  entries: EntryProps<KeyValueMap>[],
+  assets: AssetProps[],
+  excludedContentTypes: string[],
+  setProgress?: (progress: { processed: number; total: number }) => void
+): Promise<IOrphans> {
+  const candidates: Entity[] = [
+    ...entries.filter(
+      (entry) => !excludedContentTypes.includes(entry.sys.contentType.sys.id)
+    ),
+    ...assets,
+  ];
+
+  const incoming = new Map<string, string[] | undefined>();
+  let processed = 0;
+  for (const entity of candidates) {
+    incoming.set(getEntityKey(entity), await findIncomingLinks(cma, entity));
+    processed++;
+    setProgress?.({ processed, total: candidates.length });
+  }
+
+  // Start by assuming everything goes and drop entities linked from
+  // outside until nothing changes. Dropping an entry can make its own
+  // links count as outside links, hence the loop.
+  const removed = new Set<string>([
+    entityKey("Entry", rootId),
+    ...candidates.map(getEntityKey),
+  ]);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const entity of candidates) {
+      const key = getEntityKey(entity);
+      if (!removed.has(key)) {
+        continue;
+      }
+      const linkers = incoming.get(key);
+      const isShared =
+        !linkers || linkers.some((id) => !removed.has(entityKey("Entry", id)));
+      if (isShared) {
+        removed.delete(key);
+        changed = true;
+      }
+    }
+  }
+
+  return {
+    entries: entries.filter((entry) => removed.has(getEntityKey(entry))),
+    assets: assets.filter((asset) => removed.has(getEntityKey(asset))),
+  };
+}
@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createSpace, FakeSpace, IFakeSpaceLayout } from "../../test/mocks";
+import { checkPage, publishPages, summarizePage } from "./pages";
+import { ReferenceCache } from "./referenceCache";
+
+const scope = { spaceId: "fake-space", environmentId: "master" };
+
+// Two pages sharing a draft header; the second also has a draft section
+const layout: IFakeSpaceLayout = {
+  entries: {
+    header: {},
+    section: {},
+    home: {
+      contentType: "page",
+      links: { header: [{ linkType: "Entry", id: "header" }] },
+    },
+    about: {
+      contentType: "page",
+      links: {
+        header: [{ linkType: "Entry", id: "header" }],
+        body: [{ linkType: "Entry", id: "section" }],
+      },
+    },
+  },
+};
+
+beforeEach(() => window.localStorage.clear());
+
+async function summarize(space: FakeSpace, entryId: string) {
+  const { sys } = space.entries.get(entryId)!;
+  const information = await checkPage(
+    space,
+    new ReferenceCache(scope),
+    sys,
+    []
+  );
+  return summarizePage(sys, information);
+}
+
+describe("summarizePage", () => {
+  it("counts pending dependencies", async () => {
+    const summary = await summarize(createSpace(layout), "about");
+    expect(summary).toMatchObject({
+      state: "pending",
+      pendingCount: 2,
+      isPagePending: true,
+      errorCount: 0,
+    });
+  });
+
+  it("is up to date when the page and its dependencies are published", async () => {
+    const space = new FakeSpace();
+    space.addEntry("header", { state: "published" });
+    space.addEntry("home", {
+      state: "published",
+      links: { header: [{ linkType: "Entry", id: "header" }] },
+    });
+    expect((await summarize(space, "home")).state).toBe("upToDate");
+  });
+
+  it("is out of date when a dependency was published after the page", async () => {
+    const space = new FakeSpace();
+    space.addEntry("header", {
+      state: "published",
+      publishedAt: "2024-02-01T00:00:00.000Z",
+    });
+    space.addEntry("home", {
+      state: "published",
+      links: { header: [{ linkType: "Entry", id: "header" }] },
+    });
+    const summary = await summarize(space, "home");
+    expect(summary).toMatchObject({ state: "outOfDate", outOfDateCount: 1 });
+  });
+
+  it("reports errors before anything pending", async () => {
+    const space = createSpace(layout);
+    space.editEntry("home", {
+      header: [
+        { linkType: "Entry", id: "header" },
+        { linkType: "Entry", id: "missing" },
+      ],
+    });
+    const summary = await summarize(space, "home");
+    expect(summary).toMatchObject({ state: "errors", errorCount: 1 });
+  });
+});
+
+describe("publishPages", () => {
+  it("publishes shared dependencies once across pages", async () => {
+    const space = createSpace(layout);
+    const results = await publishPages(
+      space,
+      new ReferenceCache(scope),
+      ["home", "about"],
+      { excludedContentTypes: [], strategy: "sequential" }
+    );
+
+    expect(results.map((result) => result.success)).toEqual([true, true]);
+    expect(space.published).toEqual([
+      "Entry:header",
+      "Entry:home",
+      "Entry:section",
+      "Entry:about",
+    ]);
+  });
+
+  it("skips pages with nothing to publish", async () => {
+    const space = createSpace(layout);
+    const cache = new ReferenceCache(scope);
+    await publishPages(space, cache, ["home"], { excludedContentTypes: [] });
+    space.published = [];
+
+    const results = await publishPages(space, cache, ["home"], {
+      excludedContentTypes: [],
+    });
+
+    expect(results).toEqual([
+      { entryId: "home", success: true, isUpToDate: true },
+    ]);
+    expect(space.published).toEqual([]);
+  });
+
+  it("carries on with the next page when one fails", async () => {
+    const space = createSpace(layout);
+    space.failing.add("Entry:section");
+    const progress: string[] = [];
+    const results = await publishPages(
+      space,
+      new ReferenceCache(scope),
+      ["about", "home"],
+      { excludedContentTypes: [], strategy: "sequential" },
+      (entryId) => progress.push(entryId)
+    );
+
+    expect(results.map(({ entryId, success }) => [entryId, success])).toEqual([
+      ["about", false],
+      ["home", true],
+    ]);
+    expect(results[0].status?.errors).toBe(1);
+    expect(space.published).not.toContain("Entry:about");
+    expect(space.published).toContain("Entry:home");
+    expect(new Set(progress)).toEqual(new Set(["about", "home"]));
+  });
+
+  it("reports pages that can't be loaded", async () => {
+    const results = await publishPages(
+      createSpace(layout),
+      new ReferenceCache(scope),
+      ["gone"],
+      { excludedContentTypes: [] }
+    );
+
+    expect(results).toMatchObject([{ entryId: "gone", success: false }]);
+    expect(results[0].error).toContain("not found");
+  });
+});
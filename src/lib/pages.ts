@@ -0,0 +1,177 @@
+import { CMAClient } from "@contentful/app-sdk";
+import {
+  EntryProps,
+  KeyValueMap,
+  isPublished,
+  isUpdated,
+} from "contentful-management";
+import { IContentClient, IEntitySys } from "./client";
+import { buildReferenceInformation, ICrawlOptions } from "./crawler";
+import { IPublishStatus, PublishStrategy, publishPage } from "./publish";
+import { fetchReferencesIncrementally, ReferenceCache } from "./referenceCache";
+import { countBlockingIssues } from "./referenceErrors";
+import { IReferenceInformation } from "./types";
+import { isAbortError } from "./utils";
+
+// Entries fetched per list request when going through all pages
+const PAGE_LIST_LIMIT = 100;
+
+export type PageState = "upToDate" | "pending" | "outOfDate" | "errors";
+
+// Page Status of one page in a few numbers, as the sidebar would show it
+export interface IPageSummary {
+  state: PageState;
+  // Dependencies waiting to be published
+  pendingCount: number;
+  // Whether the page itself is a draft or has unpublished changes
+  isPagePending: boolean;
+  errorCount: number;
+  outOfDateCount: number;
+}
+
+export interface IPagePublishResult {
+  entryId: string;
+  // False if anything failed; the page itself is then left as it was
+  success: boolean;
+  // Set when there was nothing to publish
+  isUpToDate?: boolean;
+  status?: IPublishStatus;
+  error?: string;
+}
+
+export interface IPublishPagesOptions {
+  excludedContentTypes: string[];
+  crawl?: ICrawlOptions;
+  strategy?: PublishStrategy;
+  signal?: AbortSignal;
+}
+
+// Every entry of the given content types, most recently updated first
+export async function listPages(
+  cma: CMAClient,
+  contentTypeIds: string[]
+): Promise<EntryProps<KeyValueMap>[]> {
+  if (contentTypeIds.length === 0) {
+    return [];
+  }
+  const pages: EntryProps<KeyValueMap>[] = [];
+  for (let skip = 0; ; skip += PAGE_LIST_LIMIT) {
+    const { items, total } = await cma.entry.getMany({
+      query: {
+        "sys.contentType.sys.id[in]": contentTypeIds.join(","),
+        order: "-sys.updatedAt",
+        limit: PAGE_LIST_LIMIT,
+        skip,
+      },
+    });
+    pages.push(...items);
+    if (items.length < PAGE_LIST_LIMIT || pages.length >= total) {
+      return pages;
+    }
+  }
+}
+
+export function summarizePage(
+  pageSys: IEntitySys,
+  information: IReferenceInformation
+): IPageSummary {
+  const pendingCount =
+    information.draftEntryCount +
+    information.updatedEntryCount +
+    information.draftAssetCount +
+    information.updatedAssetCount;
+  const page = { sys: pageSys } as any;
+  const isPagePending = !isPublished(page) || isUpdated(page);
+  const outOfDateCount =
+    information.outOfDateEntries.length + information.outOfDateAssets.length;
+  const errorCount = countBlockingIssues(information);
+  const state: PageState =
+    errorCount > 0
+      ? "errors"
+      : pendingCount > 0 || isPagePending
+        ? "pending"
+        : outOfDateCount > 0
+          ? "outOfDate"
+          : "upToDate";
+  return {
+    state,
+    pendingCount,
+    isPagePending,
+    errorCount,
+    outOfDateCount,
+  };
+}
+
+// Crawl a page the same way the sidebar does, reusing cached references
+export async function checkPage(
+  client: IContentClient,
+  cache: ReferenceCache,
+  pageSys: IEntitySys,
+  excludedContentTypes: string[],
+  options: ICrawlOptions = {}
+): Promise<IReferenceInformation> {
+  const references = await fetchReferencesIncrementally(
+    client,
+    cache,
+    pageSys,
+    excludedContentTypes,
+    undefined,
+    options
+  );
+  return buildReferenceInformation(pageSys, references);
+}
+
+// Publish the pending dependencies of several pages and then the pages,
+// one page after the other. Each page is fetched and crawled again right
+// before it goes out, so dependencies shared with a page published earlier
+// in the run are already live and not published twice.
+export async function publishPages(
+  client: IContentClient,
+  cache: ReferenceCache,
+  entryIds: string[],
+  options: IPublishPagesOptions,
+  onProgress?: (entryId: string, status: IPublishStatus) => void
+): Promise<IPagePublishResult[]> {
+  const results: IPagePublishResult[] = [];
+  for (const entryId of entryIds) {
+    if (options.signal?.aborted) {
+      break;
+    }
+    try {
+      const entry = await client.getEntry(entryId);
+      const information = await checkPage(
+        client,
+        cache,
+        entry.sys,
+        options.excludedContentTypes,
+        { ...options.crawl, signal: options.signal }
+      );
+      const summary = summarizePage(entry.sys, information);
+      if (summary.pendingCount === 0 && !summary.isPagePending) {
+        results.push({ entryId, success: true, isUpToDate: true });
+        continue;
+      }
+      let status: IPublishStatus | undefined;
+      const success = await publishPage(
+        client,
+        { sys: entry.sys, publish: () => client.publishEntry(entry) },
+        information,
+        (update) => {
+          status = update;
+          onProgress?.(entryId, update);
+        },
+        undefined,
+        options.strategy,
+        options.signal
+      );
+      results.push({ entryId, success, status });
+    } catch (error) {
+      if (isAbortError(error)) {
+        break;
+      }
+      console.error(`Error publishing page ${entryId}:`, error);
+      results.push({ entryId, success: false, error: `${error}` });
+    }
+  }
+  return results;
+}
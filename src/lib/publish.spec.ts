@@ -0,0 +1,237 @@
+import { describe, expect, it } from "vitest";
+import { createSpace, FakeSpace, IFakeSpaceLayout } from "../../test/mocks";
+import {
+  buildReferenceInformation,
+  fetchReferencesIteratively,
+} from "./crawler";
+import {
+  IPublishStatus,
+  IPublishPage,
+  PublishStrategy,
+  publishPage,
+} from "./publish";
+
+// A page with a hero image, a draft section linking to a changed card, and
+// a pair of teasers linking to each other
+const layout: IFakeSpaceLayout = {
+  assets: { "hero-image": "draft" },
+  entries: {
+    card: { state: "changed" },
+    section: {
+      links: { cards: [{ linkType: "Entry", id: "card" }] },
+    },
+    "teaser-a": {
+      links: { next: [{ linkType: "Entry", id: "teaser-b" }] },
+    },
+    "teaser-b": {
+      links: { next: [{ linkType: "Entry", id: "teaser-a" }] },
+    },
+    page: {
+      contentType: "page",
+      links: {
+        hero: [{ linkType: "Asset", id: "hero-image" }],
+        body: [
+          { linkType: "Entry", id: "section" },
+          { linkType: "Entry", id: "teaser-a" },
+        ],
+      },
+    },
+  },
+};
+
+async function publish(
+  space: FakeSpace,
+  options: {
+    scheduledTime?: string;
+    strategy?: PublishStrategy;
+    locales?: string[];
+    // Cancel the run once a status matches
+    cancelWhen?: (status: IPublishStatus) => boolean;
+  } = {}
+) {
+  const pageEntry = space.entries.get("page")!;
+  const page: IPublishPage = {
+    sys: pageEntry.sys,
+    publish: (locales) => space.publishEntry(pageEntry, locales),
+  };
+  const information = buildReferenceInformation(
+    pageEntry.sys,
+    await fetchReferencesIteratively(space, "page", [])
+  );
+  const statuses: IPublishStatus[] = [];
+  const controller = new AbortController();
+  const result = await publishPage(
+    space,
+    page,
+    information,
+    (status) => {
+      statuses.push(status);
+      if (options.cancelWhen?.(status)) {
+        controller.abort();
+      }
+    },
+    options.scheduledTime,
+    options.strategy,
+    controller.signal,
+    options.locales
+  );
+  return { result, status: statuses[statuses.length - 1] };
+}
+
+describe("publishPage", () => {
+  it.each<PublishStrategy>(["bulk", "sequential"])(
+    "publishes dependencies before the entries linking to them (%s)",
+    async (strategy) => {
+      const space = createSpace(layout);
+
+      const { result, status } = await publish(space, { strategy });
+
+      expect(result).toBe(true);
+      expect(status).toMatchObject({ total: 5, published: 5, errors: 0 });
+      const order = space.published;
+      expect(order[0]).toBe("Asset:hero-image");
+      expect(order.indexOf("Entry:card")).toBeLessThan(
+        order.indexOf("Entry:section")
+      );
+      expect(order[order.length - 1]).toBe("Entry:page");
+      expect(order).toHaveLength(6);
+      expect(status.completed).toEqual(order);
+    }
+  );
+
+  it("publishes entries in a cycle in the same bulk action", async () => {
+    const space = createSpace(layout);
+
+    await publish(space);
+
+    const teaserBatch = space.bulkActions.find((action) =>
+      action.payload.entities.items.some((item) => item.sys.id === "teaser-a")
+    );
+    expect(
+      teaserBatch!.payload.entities.items.map((item) => item.sys.id)
+    ).toContain("teaser-b");
+  });
+
+  it("reports items the API rejects and leaves the page unpublished", async () => {
+    const space = createSpace(layout);
+    space.failing.add("Entry:card");
+
+    const { result, status } = await publish(space);
+
+    expect(result).toBe(false);
+    expect(status.errors).toBe(1);
+    expect(status.published).toBe(4);
+    expect(status.errored.map((sys) => sys.id)).toEqual(["card"]);
+    expect(space.published).toContain("Entry:section");
+    expect(space.published).not.toContain("Entry:page");
+  });
+
+  it("reports the page when it fails to publish itself", async () => {
+    const space = createSpace(layout);
+    space.failing.add("Entry:page");
+
+    const { result, status } = await publish(space);
+
+    expect(result).toBe(false);
+    expect(status.errors).toBe(1);
+    expect(status.errored.map((sys) => sys.id)).toEqual(["page"]);
+    expect(status.remaining).toEqual([]);
+  });
+
+  it("falls back to publishing one by one without bulk actions", async () => {
+    const space = createSpace(layout);
+    space.bulkActionsEnabled = false;
+
+    const { result } = await publish(space);
+
+    expect(result).toBe(true);
+    expect(space.bulkActions).toHaveLength(0);
+    expect(space.published).toHaveLength(6);
+  });
+
+  it("schedules every dependency and the page instead of publishing", async () => {
+    const space = createSpace(layout);
+    const scheduledTime = "2030-01-01T09:00:00.000Z";
+
+    const { result, status } = await publish(space, { scheduledTime });
+
+    expect(result).toBe(true);
+    expect(space.published).toEqual([]);
+    expect(space.scheduledActions).toHaveLength(6);
+    expect(
+      space.scheduledActions.every(
+        (action) => action.scheduledFor.datetime === scheduledTime
+      )
+    ).toBe(true);
+    expect(space.scheduledActions[5].entity.sys.id).toBe("page");
+    expect(status).toMatchObject({ isScheduled: true, published: 5 });
+    expect(status.scheduledActionIds).toHaveLength(6);
+  });
+
+  it("stops before the next item when cancelled and reports what is left", async () => {
+    const space = createSpace(layout);
+
+    const { result, status } = await publish(space, {
+      strategy: "sequential",
+      cancelWhen: ({ published }) => published === 2,
+    });
+
+    expect(result).toBe(false);
+    expect(status).toMatchObject({ isCancelled: true, published: 2 });
+    expect(space.published).toHaveLength(2);
+    expect(space.published).not.toContain("Entry:page");
+    expect(status.remaining).toHaveLength(4);
+    expect(status.remaining).toContain("Entry:page");
+    expect(status.remaining).not.toContain(space.published[1]);
+  });
+
+  it("doesn't start another bulk action once cancelled", async () => {
+    const space = createSpace(layout);
+
+    const { result, status } = await publish(space, {
+      cancelWhen: ({ published }) => published === 0,
+    });
+
+    expect(result).toBe(false);
+    expect(space.bulkActions).toHaveLength(0);
+    expect(space.published).toEqual([]);
+    expect(status.isCancelled).toBe(true);
+    expect(status.remaining).toHaveLength(6);
+  });
+
+  it("has nothing left once the page is published", async () => {
+    const space = createSpace(layout);
+    const statuses: IPublishStatus[] = [];
+    const pageEntry = space.entries.get("page")!;
+    const information = buildReferenceInformation(
+      pageEntry.sys,
+      await fetchReferencesIteratively(space, "page", [])
+    );
+
+    await publishPage(
+      space,
+      { sys: pageEntry.sys, publish: () => space.publishEntry(pageEntry) },
+      information,
+      (status) => statuses.push(status)
+    );
+
+    expect(statuses[statuses.length - 1].remaining).toEqual([]);
+  });
+
+  it("publishes only the selected locales, one by one", async () => {
+    const space = createSpace(layout);
+    const locales = ["en-US", "de-DE"];
+
+    const { result, status } = await publish(space, { locales });
+
+    expect(result).toBe(true);
+    expect(status.locales).toEqual(locales);
+    expect(space.bulkActions).toHaveLength(0);
+    expect(space.published).toHaveLength(6);
+    expect(
+      space.published.every(
+        (key) => space.publishedLocales.get(key) === locales
+      )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,235 @@
+import {
+  AssetProps,
+  EntryProps,
+  KeyValueMap,
+  ReleaseProps,
+} from "contentful-management";
+import { BulkActionsUnavailableError, bulkPublish } from "./bulkPublish";
+import { IContentClient, IEntitySys } from "./client";
+import { orderForPublishing } from "./graph";
+import { entityKey } from "./links";
+import { IReferenceInformation } from "./types";
+import { isAbortError } from "./utils";
+
+// "bulk" publishes through CMA bulk actions and falls back to
+// "sequential" (one publish call per entity) where they aren't available
+export type PublishStrategy = "bulk" | "sequential";
+
+// The entry the dependencies are published for
+export interface IPublishPage {
+  sys: IEntitySys;
+  // Publishes the page itself (only the given locales, if any); in the app
+  // the entry editor does this so its state stays in sync
+  publish: (locales?: string[]) => Promise<unknown>;
+}
+
+export interface IPublishStatus {
+  total: number;
+  published: number;
+  errors: number;
+  errored: IEntitySys[];
+  isScheduled?: boolean;
+  scheduledTime?: string;
+  scheduledActionIds?: string[]; // Track created scheduled action IDs
+  release?: ReleaseProps; // Set when scheduling through a release
+  isUnpublish?: boolean; // Set when retiring a page and its orphans
+  isCancelled?: boolean; // Set when the run was stopped before the end
+  locales?: string[]; // Set when only some locales are published
+  remaining?: string[]; // Entity keys of what is still to be published
+  completed?: string[]; // Entity keys of what went through, page included
+}
+
+// Publish (or schedule) the selected pending dependencies in dependency
+// order, then the page itself once all of them went out. Aborting `signal`
+// stops before the next item (in-flight requests and bulk actions finish);
+// the last status then has `isCancelled` set and lists what is left.
+// With `locales`, only those locales of each item are published; bulk
+// actions and scheduled actions can't do that, so it is one by one and
+// immediate only. Without a page, only the dependencies are published.
+export async function publishPage(
+  client: IContentClient,
+  page: IPublishPage | null,
+  information: IReferenceInformation,
+  setStatus: (status: IPublishStatus) => void,
+  scheduledTime?: string,
+  strategy: PublishStrategy = "bulk",
+  signal?: AbortSignal,
+  locales?: string[]
+) {
+  const { draftAssets, updatedAssets, draftEntries, updatedEntries } =
+    information;
+  const total =
+    draftAssets.length +
+    updatedAssets.length +
+    draftEntries.length +
+    updatedEntries.length;
+
+  let published = 0;
+  let errors = 0;
+  let errored: IEntitySys[] = [];
+  let isCancelled = false;
+  const scheduledActionIds: string[] = [];
+  const completed: string[] = [];
+  const remaining = new Set(
+    [
+      ...draftAssets,
+      ...updatedAssets,
+      ...draftEntries,
+      ...updatedEntries,
+      ...(page ? [page] : []),
+    ].map(({ sys }) => entityKey(sys.type, sys.id))
+  );
+
+  const isScheduled = !!scheduledTime;
+  if (isScheduled && locales) {
+    throw new Error("Publishing selected locales can't be scheduled");
+  }
+
+  const reportStatus = () =>
+    setStatus({
+      total,
+      published,
+      errors,
+      errored,
+      isScheduled,
+      scheduledTime,
+      scheduledActionIds,
+      isCancelled,
+      locales,
+      remaining: [...remaining],
+      completed: [...completed],
+    });
+  const markPublished = (sys: IEntitySys) => {
+    published++;
+    remaining.delete(entityKey(sys.type, sys.id));
+    completed.push(entityKey(sys.type, sys.id));
+  };
+  const markErrored = (sys: IEntitySys) => {
+    errors++;
+    errored.push(sys);
+    remaining.delete(entityKey(sys.type, sys.id));
+  };
+  const checkCancelled = () => {
+    isCancelled = isCancelled || !!signal?.aborted;
+    return isCancelled;
+  };
+
+  // Update status with initial information
+  reportStatus();
+
+  // Schedule a publish, keeping track of the created scheduled action
+  const schedulePublish = async (sys: IEntitySys) => {
+    if (!scheduledTime) return false;
+    const scheduledAction = await client.schedulePublish(sys, scheduledTime);
+    if (scheduledAction && scheduledAction.sys && scheduledAction.sys.id) {
+      scheduledActionIds.push(scheduledAction.sys.id);
+    }
+    return true;
+  };
+
+  // Assets don't link to anything, so they go first. Entries follow the
+  // reference graph: linked entries before the entries linking to them.
+  let assetsToPublish: AssetProps[] = [...draftAssets, ...updatedAssets];
+  const entryGroups = orderForPublishing(
+    [...draftEntries, ...updatedEntries],
+    information.links
+  );
+  let entriesToPublish: EntryProps<KeyValueMap>[] = entryGroups.flat();
+
+  // Publish in bulk actions where possible; anything they couldn't handle
+  // falls through to the one-by-one loops below
+  if (!isScheduled && !locales && strategy === "bulk" && total > 0) {
+    try {
+      await bulkPublish(
+        client,
+        [...assetsToPublish.map((asset) => [asset]), ...entryGroups],
+        {
+          onPublished: (sys) => {
+            markPublished(sys);
+            reportStatus();
+          },
+          onErrored: (sys) => {
+            markErrored(sys);
+            reportStatus();
+          },
+        },
+        signal
+      );
+      assetsToPublish = [];
+      entriesToPublish = [];
+    } catch (error) {
+      if (isAbortError(error)) {
+        checkCancelled();
+        assetsToPublish = [];
+        entriesToPublish = [];
+      } else if (error instanceof BulkActionsUnavailableError) {
+        console.warn("Falling back to publishing one by one:", error);
+        const unhandled = new Set(error.remaining);
+        assetsToPublish = assetsToPublish.filter((a) => unhandled.has(a));
+        entriesToPublish = entriesToPublish.filter((e) => unhandled.has(e));
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  // Process assets
+  for (const asset of assetsToPublish) {
+    if (checkCancelled()) break;
+    try {
+      if (isScheduled) {
+        await schedulePublish(asset.sys);
+      } else {
+        await client.publishAsset(asset, locales);
+      }
+      markPublished(asset.sys);
+    } catch (error) {
+      console.error("Error", error);
+      markErrored(asset.sys);
+    }
+    reportStatus();
+  }
+
+  // Process entries
+  for (const entry of entriesToPublish) {
+    if (checkCancelled()) break;
+    try {
+      if (isScheduled) {
+        await schedulePublish(entry.sys);
+      } else {
+        await client.publishEntry(entry, locales);
+      }
+      markPublished(entry.sys);
+    } catch (error) {
+      console.error("Entry error", error);
+      markErrored(entry.sys);
+    }
+    reportStatus();
+  }
+
+  // Publish or schedule the main entry if no errors
+  if (checkCancelled()) {
+    reportStatus();
+    return false;
+  }
+  if (page && errors === 0) {
+    try {
+      if (isScheduled && scheduledTime) {
+        // Schedule the main entry using scheduledActions
+        await schedulePublish(page.sys);
+      } else {
+        // Immediate publish for the main entry
+        await page.publish(locales);
+      }
+      remaining.delete(entityKey(page.sys.type, page.sys.id));
+      completed.push(entityKey(page.sys.type, page.sys.id));
+      reportStatus();
+    } catch (error) {
+      console.error("Error with main entry:", error);
+      markErrored(page.sys);
+      reportStatus();
+    }
+  }
+
+  return errors === 0;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { IPublishStatus } from "./publish";
+import {
+  createPublishRun,
+  describePublishRun,
+  getPublishRunTitle,
+} from "./publishLog";
+
+const user = { sys: { id: "user-1" }, firstName: "Ada", lastName: "Byron" };
+
+describe("createPublishRun", () => {
+  it("records what went out, what failed and who ran it", () => {
+    const status: IPublishStatus = {
+      total: 3,
+      published: 2,
+      errors: 1,
+      errored: [{ type: "Entry", id: "card" } as IPublishStatus["errored"][0]],
+      completed: ["Asset:image", "Entry:section"],
+    };
+
+    const run = createPublishRun(status, {
+      entryIds: ["page"],
+      user,
+      startedAt: "2024-01-01T00:00:00.000Z",
+      finishedAt: "2024-01-01T00:01:00.000Z",
+    });
+
+    expect(run).toEqual({
+      action: "publish",
+      entryIds: ["page"],
+      user: { id: "user-1", name: "Ada Byron" },
+      startedAt: "2024-01-01T00:00:00.000Z",
+      finishedAt: "2024-01-01T00:01:00.000Z",
+      scheduledTime: undefined,
+      completed: ["Asset:image", "Entry:section"],
+      failed: ["Entry:card"],
+      scheduledActionIds: [],
+      releaseId: undefined,
+      locales: undefined,
+      isCancelled: undefined,
+    });
+    expect(describePublishRun(run)).toBe("Published 2 items");
+  });
+
+  it("tells scheduled and unpublish runs apart", () => {
+    const base = { total: 1, published: 1, errors: 0, errored: [] };
+    const details = { entryIds: ["page"], user, startedAt: "" };
+
+    expect(
+      createPublishRun(
+        {
+          ...base,
+          isScheduled: true,
+          scheduledTime: "2030-01-01T09:00:00Z",
+          scheduledActionIds: ["action-1"],
+        },
+        details
+      )
+    ).toMatchObject({ action: "schedule", scheduledActionIds: ["action-1"] });
+    expect(
+      createPublishRun({ ...base, isUnpublish: true }, details).action
+    ).toBe("unpublish");
+  });
+});
+
+describe("getPublishRunTitle", () => {
+  it("fits runs for many pages into a Symbol field", () => {
+    const status = { total: 1, published: 1, errors: 0, errored: [] };
+    const entryIds = Array.from({ length: 40 }, (_, i) => `page-${i}`);
+    const run = createPublishRun(status, { entryIds, user, startedAt: "" });
+
+    const title = getPublishRunTitle(run);
+
+    expect(title).toHaveLength(256);
+    expect(title.startsWith("Published 0 items: page-0, page-1")).toBe(true);
+    expect(title.endsWith("...")).toBe(true);
+    expect(getPublishRunTitle({ ...run, entryIds: ["page"] })).toBe(
+      "Published 0 items: page"
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import { CMAClient } from "@contentful/app-sdk";
+import { EntryProps, KeyValueMap } from "contentful-management";
+import { entityKey } from "./links";
+import { IPublishStatus } from "./publish";
+import { getErrorStatus } from "./retry";
+
+// Every run is kept as a draft entry of this content type, so the log lives
+// in the space and never reaches the delivery API. The configuration
+// screen creates it once the log is turned on.
+export const PUBLISH_LOG_CONTENT_TYPE = "pageStatusPublishLog";
+export const PUBLISH_LOG_CONTENT_TYPE_NAME = "Page Status publish log";
+
+// Longest value a Symbol field takes
+const TITLE_MAX_LENGTH = 256;
+
+// Runs shown in the history of an entry
+const PUBLISH_LOG_LIMIT = 50;
+
+export type PublishRunAction = "publish" | "schedule" | "unpublish";
+
+// One run of the app, as stored in the log
+export interface IPublishRun {
+  action: PublishRunAction;
+  // The pages the run was started for
+  entryIds: string[];
+  user: { id: string; name: string };
+  startedAt: string;
+  finishedAt: string;
+  scheduledTime?: string;
+  // Entity keys ("Entry:id") published, scheduled or unpublished
+  completed: string[];
+  // Entity keys that failed
+  failed: string[];
+  scheduledActionIds: string[];
+  releaseId?: string;
+  // Only these locales were published
+  locales?: string[];
+  isCancelled?: boolean;
+}
+
+// The log record of a finished run, from its last status
+export function createPublishRun(
+  status: IPublishStatus,
+  run: {
+    entryIds: string[];
+    user: { sys: { id: string }; firstName?: string; lastName?: string };
+    startedAt: string;
+    finishedAt?: string;
+  }
+): IPublishRun {
+  const { user } = run;
+  return {
+    action: status.isUnpublish
+      ? "unpublish"
+      : status.isScheduled
+        ? "schedule"
+        : "publish",
+    entryIds: run.entryIds,
+    user: {
+      id: user.sys.id,
+      name:
+        [user.firstName, user.lastName].filter(Boolean).join(" ") ||
+        user.sys.id,
+    },
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt ?? new Date().toISOString(),
+    scheduledTime: status.scheduledTime,
+    completed: status.completed ?? [],
+    failed: status.errored.map((sys) => entityKey(sys.type, sys.id)),
+    scheduledActionIds: status.scheduledActionIds ?? [],
+    releaseId: status.release?.sys.id,
+    locales: status.locales,
+    isCancelled: status.isCancelled,
+  };
+}
+
+export function describePublishRun(run: IPublishRun) {
+  const count = run.completed.length;
+  const items = `${count} item${count === 1 ? "" : "s"}`;
+  switch (run.action) {
+    case "publish":
+      return `Published ${items}`;
+    case "schedule":
+      return `Scheduled ${items} for ${new Date(
+        run.scheduledTime!
+      ).toLocaleString()}`;
+    case "unpublish":
+      return `Unpublished ${items}`;
+  }
+}
+
+// Create the log content type unless it is there already. Its fields are
+// not localized, so entries only use the default locale.
+export async function ensurePublishLogContentType(cma: CMAClient) {
+  try {
+    await cma.contentType.get({ contentTypeId: PUBLISH_LOG_CONTENT_TYPE });
+    return;
+  } catch (error) {
+    if (getErrorStatus(error) !== 404) {
+      throw error;
+    }
+  }
+  const contentType = await cma.contentType.createWithId(
+    { contentTypeId: PUBLISH_LOG_CONTENT_TYPE },
+    {
+      name: PUBLISH_LOG_CONTENT_TYPE_NAME,
+      description:
+        "Written by the Page Status app, one entry per publish run. Entries stay drafts; don't edit them.",
+      displayField: "title",
+      fields: [
+        {
+          id: "title",
+          name: "Title",
+          type: "Symbol",
+          localized: false,
+          required: true,
+        },
+        {
+          id: "entryIds",
+          name: "Entry IDs",
+          type: "Array",
+          items: { type: "Symbol", validations: [] },
+          localized: false,
+          required: true,
+        },
+        {
+          id: "run",
+          name: "Run",
+          type: "Object",
+          localized: false,
+          required: true,
+        },
+      ],
+    }
+  );
+  await cma.contentType.publish(
+    { contentTypeId: PUBLISH_LOG_CONTENT_TYPE },
+    contentType
+  );
+}
+
+// The title shown in entry lists, cut to fit the Symbol field
+export function getPublishRunTitle(run: IPublishRun) {
+  const title = `${describePublishRun(run)}: ${run.entryIds.join(", ")}`;
+  return title.length > TITLE_MAX_LENGTH
+    ? `${title.slice(0, TITLE_MAX_LENGTH - 3)}...`
+    : title;
+}
+
+export async function recordPublishRun(
+  cma: CMAClient,
+  run: IPublishRun,
+  locale: string
+): Promise<EntryProps<KeyValueMap>> {
+  return cma.entry.create(
+    { contentTypeId: PUBLISH_LOG_CONTENT_TYPE },
+    {
+      fields: {
+        title: { [locale]: getPublishRunTitle(run) },
+        entryIds: { [locale]: run.entryIds },
+        run: { [locale]: run },
+      },
+    }
+  );
+}
+
+// Runs started for an entry, most recent first
+export async function loadPublishRuns(
+  cma: CMAClient,
+  entryId: string,
+  locale: string
+): Promise<IPublishRun[]> {
+  const { items } = await cma.entry.getMany({
+    query: {
+      content_type: PUBLISH_LOG_CONTENT_TYPE,
+      "fields.entryIds[in]": entryId,
+      order: "-sys.createdAt",
+      limit: PUBLISH_LOG_LIMIT,
+    },
+  });
+  return items
+    .map((entry) => entry.fields.run?.[locale] as IPublishRun | undefined)
+    .filter((run): run is IPublishRun => !!run);
+}
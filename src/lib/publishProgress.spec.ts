@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { FakeSpace } from "../../test/mocks";
+import {
+  buildReferenceInformation,
+  fetchReferencesIteratively,
+} from "./crawler";
+import {
+  clearPublishProgress,
+  loadPublishProgress,
+  savePublishProgress,
+  selectRemaining,
+} from "./publishProgress";
+
+const scope = { spaceId: "fake-space", environmentId: "master" };
+
+describe("publish progress", () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it("is kept per entry until cleared", () => {
+    const progress = {
+      remaining: ["Entry:card", "Entry:page"],
+      total: 3,
+      startedAt: "2024-01-01T00:00:00.000Z",
+    };
+
+    savePublishProgress(scope, "page", progress);
+
+    expect(loadPublishProgress(scope, "page")).toEqual(progress);
+    expect(loadPublishProgress(scope, "other-page")).toBeUndefined();
+    expect(
+      loadPublishProgress({ ...scope, environmentId: "staging" }, "page")
+    ).toBeUndefined();
+    clearPublishProgress(scope, "page");
+    expect(loadPublishProgress(scope, "page")).toBeUndefined();
+  });
+
+  it("selects the remaining items that are still pending", async () => {
+    const space = new FakeSpace();
+    space.addAsset("image");
+    space.addEntry("card");
+    space.addEntry("footer", { state: "changed" });
+    space.addEntry("page", {
+      links: {
+        body: [
+          { linkType: "Entry", id: "card" },
+          { linkType: "Entry", id: "footer" },
+          { linkType: "Asset", id: "image" },
+        ],
+      },
+    });
+    // Published elsewhere since the run was cancelled
+    await space.publishEntry(space.entries.get("card")!);
+    const pageEntry = space.entries.get("page")!;
+    const information = buildReferenceInformation(
+      pageEntry.sys,
+      await fetchReferencesIteratively(space, "page", [])
+    );
+
+    const remaining = selectRemaining(information, {
+      remaining: ["Entry:card", "Entry:footer", "Entry:page"],
+      total: 3,
+      startedAt: "2024-01-01T00:00:00.000Z",
+    });
+
+    expect(remaining.draftEntries).toEqual([]);
+    expect(remaining.updatedEntries.map((entry) => entry.sys.id)).toEqual([
+      "footer",
+    ]);
+    expect(remaining.draftAssetCount).toBe(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { getEntityKey } from "./links";
+import { ICacheScope } from "./referenceCache";
+import { applySelection } from "./selection";
+import { IReferenceInformation } from "./types";
+import { getLocalStorage } from "./utils";
+
+const KEY_PREFIX = "pageStatus:publishProgress:";
+
+// What was left of a publish run that didn't get to the end, so it can be
+// picked up again next time the page is opened
+export interface IPublishProgress {
+  // Entity keys ("Entry:id") still to be published, the page included
+  remaining: string[];
+  total: number;
+  scheduledTime?: string;
+  // Only these locales were being published
+  locales?: string[];
+  startedAt: string;
+}
+
+function progressKey(scope: ICacheScope, entryId: string) {
+  return `${KEY_PREFIX}${scope.spaceId}:${scope.environmentId}:${entryId}`;
+}
+
+export function loadPublishProgress(
+  scope: ICacheScope,
+  entryId: string,
+  storage: Storage | undefined = getLocalStorage()
+): IPublishProgress | undefined {
+  try {
+    const stored = storage?.getItem(progressKey(scope, entryId));
+    return stored ? JSON.parse(stored) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function savePublishProgress(
+  scope: ICacheScope,
+  entryId: string,
+  progress: IPublishProgress,
+  storage: Storage | undefined = getLocalStorage()
+) {
+  try {
+    storage?.setItem(progressKey(scope, entryId), JSON.stringify(progress));
+  } catch (error) {
+    console.warn("Could not save publish progress:", error);
+  }
+}
+
+export function clearPublishProgress(
+  scope: ICacheScope,
+  entryId: string,
+  storage: Storage | undefined = getLocalStorage()
+) {
+  storage?.removeItem(progressKey(scope, entryId));
+}
+
+// The pending items of `information` that an interrupted run didn't get to,
+// ready to be published with `publishPage`. Items published in the meantime
+// are no longer pending and drop out.
+export function selectRemaining(
+  information: IReferenceInformation,
+  progress: IPublishProgress
+): IReferenceInformation {
+  const remaining = new Set(progress.remaining);
+  const excludedKeys = new Set(
+    [
+      ...information.draftEntries,
+      ...information.updatedEntries,
+      ...information.draftAssets,
+      ...information.updatedAssets,
+    ]
+      .map(getEntityKey)
+      .filter((key) => !remaining.has(key))
+  );
+  return applySelection(information, excludedKeys);
+}
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createSpace,
+  FakeSpace,
+  ids,
+  IFakeSpaceLayout,
+} from "../../test/mocks";
+import { fetchReferencesIteratively } from "./crawler";
+import {
+  fetchReferencesIncrementally,
+  readCachedReferences,
+  ReferenceCache,
+} from "./referenceCache";
+
+const scope = { spaceId: "fake-space", environmentId: "master" };
+
+const layout: IFakeSpaceLayout = {
+  assets: { image: "draft" },
+  entries: {
+    card: {
+      links: { image: [{ linkType: "Asset", id: "image" }] },
+    },
+    "other-card": {},
+    section: {
+      links: { cards: [{ linkType: "Entry", id: "card" }] },
+    },
+    footer: {},
+    page: {
+      links: {
+        body: [
+          { linkType: "Entry", id: "section" },
+          { linkType: "Entry", id: "footer" },
+        ],
+      },
+    },
+  },
+};
+
+const crawl = (space: FakeSpace, cache: ReferenceCache) =>
+  fetchReferencesIncrementally(
+    space,
+    cache,
+    space.entries.get("page")!.sys,
+    []
+  );
+
+describe("fetchReferencesIncrementally", () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it("only fetches references for entries that changed", async () => {
+    const space = createSpace(layout);
+    await crawl(space, new ReferenceCache(scope));
+    space.referenceRequests = [];
+
+    space.editEntry("section", {
+      cards: [
+        { linkType: "Entry", id: "card" },
+        { linkType: "Entry", id: "other-card" },
+      ],
+    });
+    const references = await crawl(space, new ReferenceCache(scope));
+
+    // The page includes the section, so it is out of date as well
+    expect(space.referenceRequests.sort()).toEqual([
+      "other-card",
+      "page",
+      "section",
+    ]);
+    expect(ids(references.entries)).toEqual([
+      "card",
+      "footer",
+      "other-card",
+      "section",
+    ]);
+  });
+
+  it("gives the same result as a crawl without cache", async () => {
+    const space = createSpace(layout);
+    const cache = new ReferenceCache(scope);
+    await crawl(space, cache);
+    space.editEntry("card");
+
+    const cached = await crawl(space, cache);
+    const uncached = await fetchReferencesIteratively(space, "page", []);
+
+    expect(cached).toEqual(uncached);
+  });
+
+  it("keeps caches of different environments apart", async () => {
+    const space = createSpace(layout);
+    await crawl(space, new ReferenceCache(scope));
+    space.referenceRequests = [];
+
+    await crawl(
+      space,
+      new ReferenceCache({ ...scope, environmentId: "staging" })
+    );
+
+    expect(space.referenceRequests.sort()).toEqual([
+      "card",
+      "footer",
+      "page",
+      "section",
+    ]);
+  });
+});
+
+describe("readCachedReferences", () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it("returns the last crawl without any requests", async () => {
+    const space = createSpace(layout);
+    const first = await crawl(space, new ReferenceCache(scope));
+    space.referenceRequests = [];
+
+    const cached = await readCachedReferences(
+      space,
+      new ReferenceCache(scope),
+      "page",
+      []
+    );
+
+    expect(cached).toEqual(first);
+    expect(space.referenceRequests).toEqual([]);
+  });
+
+  it("returns nothing when part of the crawl was never cached", async () => {
+    const space = createSpace(layout);
+    expect(
+      await readCachedReferences(space, new ReferenceCache(scope), "page", [])
+    ).toBeUndefined();
+  });
+});
+
+describe("ReferenceCache", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it("drops the least recently used entries to stay under its size limit", async () => {
+    const space = createSpace(layout);
+    const references = await space.getReferences("page");
+    const size = JSON.stringify({ version: 1, references }).length;
+    const cache = new ReferenceCache(scope, window.localStorage, size * 2.5);
+
+    vi.setSystemTime(1000);
+    cache.set("a", 1, references);
+    vi.setSystemTime(2000);
+    cache.set("b", 1, references);
+    vi.setSystemTime(3000);
+    cache.get("a", 1);
+    vi.setSystemTime(4000);
+    cache.set("c", 1, references);
+
+    expect(cache.get("a", 1)).toBeDefined();
+    expect(cache.get("b", 1)).toBeUndefined();
+    expect(cache.get("c", 1)).toBeDefined();
+    expect(cache.get("c", 2)).toBeUndefined();
+  });
+});
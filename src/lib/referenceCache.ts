@@ -0,0 +1,260 @@
+import { EntryReferenceProps } from "contentful-management/dist/typings/entities/entry";
+import { IContentClient } from "./client";
+import { fetchReferencesIteratively, ICrawlOptions } from "./crawler";
+import { entityKey, LinkedEntityType } from "./links";
+import { IAllReferences } from "./types";
+import { abortable, getLocalStorage } from "./utils";
+
+const KEY_PREFIX = "pageStatus:references:";
+const INDEX_KEY = "pageStatus:referencesIndex";
+
+// Upper bound on the characters the cache keeps in storage. localStorage
+// usually allows around five million per origin, shared with the rest of
+// the app.
+export const MAX_CACHE_SIZE = 2 * 1024 * 1024;
+
+export interface ICacheScope {
+  spaceId: string;
+  environmentId: string;
+}
+
+interface ICachedReferences {
+  version: number;
+  references: EntryReferenceProps;
+}
+
+interface IIndexEntry {
+  size: number;
+  usedAt: number;
+}
+
+// References responses per entry, stored with the version of the entry
+// they were fetched for. Least recently used entries are dropped once the
+// cache grows past its size limit.
+export class ReferenceCache {
+  private scope: ICacheScope;
+  private storage: Storage | undefined;
+  private maxSize: number;
+  private index: Record<string, IIndexEntry>;
+
+  constructor(
+    scope: ICacheScope,
+    storage: Storage | undefined = getLocalStorage(),
+    maxSize = MAX_CACHE_SIZE
+  ) {
+    this.scope = scope;
+    this.storage = storage;
+    this.maxSize = maxSize;
+    this.index = this.readIndex();
+  }
+
+  private key(entryId: string) {
+    const { spaceId, environmentId } = this.scope;
+    return `${KEY_PREFIX}${spaceId}:${environmentId}:${entryId}`;
+  }
+
+  private readIndex(): Record<string, IIndexEntry> {
+    try {
+      return JSON.parse(this.storage?.getItem(INDEX_KEY) ?? "{}");
+    } catch {
+      return {};
+    }
+  }
+
+  // Write the usage index back; `get` only updates it in memory
+  flush() {
+    try {
+      this.storage?.setItem(INDEX_KEY, JSON.stringify(this.index));
+    } catch (error) {
+      console.warn("Could not save the reference cache index:", error);
+    }
+  }
+
+  private remove(key: string) {
+    this.storage?.removeItem(key);
+    delete this.index[key];
+  }
+
+  // Cached references of an entry. Without a version, whatever was stored
+  // last is returned.
+  get(entryId: string, version?: number): EntryReferenceProps | undefined {
+    const key = this.key(entryId);
+    let cached: ICachedReferences | undefined;
+    try {
+      const stored = this.storage?.getItem(key);
+      cached = stored ? JSON.parse(stored) : undefined;
+    } catch {
+      this.remove(key);
+      return undefined;
+    }
+    if (!cached || (version !== undefined && cached.version !== version)) {
+      return undefined;
+    }
+    if (this.index[key]) {
+      this.index[key].usedAt = Date.now();
+    }
+    return cached.references;
+  }
+
+  set(entryId: string, version: number, references: EntryReferenceProps) {
+    if (!this.storage) {
+      return;
+    }
+    const key = this.key(entryId);
+    const value = JSON.stringify({ version, references });
+    if (value.length > this.maxSize) {
+      this.remove(key);
+      return;
+    }
+
+    // Make room, oldest first
+    delete this.index[key];
+    let size = Object.values(this.index).reduce((sum, e) => sum + e.size, 0);
+    const byAge = Object.entries(this.index).sort(
+      ([, a], [, b]) => a.usedAt - b.usedAt
+    );
+    while (size + value.length > this.maxSize && byAge.length > 0) {
+      const [oldest, entry] = byAge.shift()!;
+      this.remove(oldest);
+      size -= entry.size;
+    }
+
+    try {
+      this.storage.setItem(key, value);
+      this.index[key] = { size: value.length, usedAt: Date.now() };
+    } catch (error) {
+      // Storage is full of other data; skip caching rather than fail
+      console.warn("Could not cache references:", error);
+      this.remove(key);
+    }
+    this.flush();
+  }
+}
+
+// Every entity a references response mentions, with the version it had
+function getResponseVersions(references: EntryReferenceProps) {
+  return [
+    ...(references.items ?? []),
+    ...(references.includes?.Entry ?? []),
+    ...(references.includes?.Asset ?? []),
+  ].map((entity) => ({
+    key: entityKey(entity.sys.type as LinkedEntityType, entity.sys.id),
+    version: entity.sys.version,
+  }));
+}
+
+// Serve references from the cache where they are still current. With
+// `versions` (current versions by `entityKey`) a cached response is used
+// only if nothing it contains has changed since, and fresh responses are
+// cached as they come in. Without, only the cache is read and entries that
+// aren't in it fail after calling `onMiss`.
+function withReferenceCache(
+  client: IContentClient,
+  cache: ReferenceCache,
+  versions?: Map<string, number>,
+  onMiss?: () => void
+): IContentClient {
+  return {
+    ...client,
+    getReferences: async (entryId) => {
+      if (!versions) {
+        const cached = cache.get(entryId);
+        if (!cached) {
+          onMiss?.();
+          throw new Error(`References of ${entryId} are not cached`);
+        }
+        return cached;
+      }
+      const cached = cache.get(
+        entryId,
+        versions.get(entityKey("Entry", entryId))
+      );
+      if (
+        cached &&
+        getResponseVersions(cached).every(
+          ({ key, version }) => versions.get(key) === version
+        )
+      ) {
+        return cached;
+      }
+      const references = await client.getReferences(entryId);
+      const entry = references.items?.[0];
+      if (entry) {
+        cache.set(entryId, entry.sys.version, references);
+      }
+      return references;
+    },
+  };
+}
+
+// The last crawl of an entry as far as the cache has it, or undefined if
+// part of it is missing. Link rules and depth in `options` apply as in a
+// crawl.
+export async function readCachedReferences(
+  client: IContentClient,
+  cache: ReferenceCache,
+  entryId: string,
+  excludedContentTypes: string[],
+  options: ICrawlOptions = {}
+): Promise<IAllReferences | undefined> {
+  if (!cache.get(entryId)) {
+    return undefined;
+  }
+  let isComplete = true;
+  const references = await fetchReferencesIteratively(
+    withReferenceCache(client, cache, undefined, () => {
+      isComplete = false;
+    }),
+    entryId,
+    excludedContentTypes,
+    undefined,
+    { ...options, maxRetries: 0 }
+  );
+  return isComplete ? references : undefined;
+}
+
+// Crawl an entry, only fetching references for entries where something
+// changed since they were cached. The versions of everything in the cached
+// crawl are checked in a few list requests up front.
+export async function fetchReferencesIncrementally(
+  client: IContentClient,
+  cache: ReferenceCache,
+  entrySys: { id: string; version: number },
+  excludedContentTypes: string[],
+  setProgress?: (progress: { processed: number; total: number }) => void,
+  options: ICrawlOptions = {}
+): Promise<IAllReferences> {
+  const cached = await readCachedReferences(
+    client,
+    cache,
+    entrySys.id,
+    excludedContentTypes,
+    options
+  );
+  const versions = cached
+    ? await abortable(
+        client.getVersions([
+          ...cached.entries.map((entry) => ({
+            linkType: "Entry" as const,
+            id: entry.sys.id,
+          })),
+          ...cached.assets.map((asset) => ({
+            linkType: "Asset" as const,
+            id: asset.sys.id,
+          })),
+        ]),
+        options.signal
+      )
+    : new Map<string, number>();
+  versions.set(entityKey("Entry", entrySys.id), entrySys.version);
+
+  const references = await fetchReferencesIteratively(
+    withReferenceCache(client, cache, versions),
+    entrySys.id,
+    excludedContentTypes,
+    setProgress,
+    options
+  );
+  cache.flush();
+  return references;
+}
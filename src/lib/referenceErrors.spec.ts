@@ -0,0 +1,227 @@
+import { describe, expect, it } from "vitest";
+import {
+  createSpace,
+  FAKE_LOCALE,
+  FakeSpace,
+  IFakeSpaceLayout,
+} from "../../test/mocks";
+import {
+  buildReferenceInformation,
+  fetchReferencesIteratively,
+} from "./crawler";
+import { IReferenceLink, removeLink } from "./links";
+import {
+  decodeReferenceErrors,
+  findReferenceProblems,
+  removeBrokenLink,
+  unarchiveForPublishing,
+} from "./referenceErrors";
+
+const link = (linkType: string, id: string) => ({
+  sys: { type: "Link", linkType, id },
+});
+
+// A page whose section links to an archived card, a card that no longer
+// exists and an image the user can't see
+const layout: IFakeSpaceLayout = {
+  assets: { "secret-image": "published" },
+  entries: {
+    "archived-card": { state: "archived" },
+    section: {
+      links: {
+        cards: [
+          { linkType: "Entry", id: "archived-card" },
+          { linkType: "Entry", id: "deleted-card" },
+        ],
+        image: [{ linkType: "Asset", id: "secret-image" }],
+      },
+    },
+    page: {
+      links: { body: [{ linkType: "Entry", id: "section" }] },
+    },
+  },
+  restricted: ["Asset:secret-image"],
+};
+
+async function decode(space: FakeSpace) {
+  const references = await fetchReferencesIteratively(space, "page", []);
+  return decodeReferenceErrors(space, references.errors, references.links);
+}
+
+describe("decodeReferenceErrors", () => {
+  it("tells deleted, archived and inaccessible links apart", async () => {
+    const problems = await decode(createSpace(layout));
+
+    expect(
+      problems.map(({ kind, linkType, id }) => [kind, linkType, id])
+    ).toEqual([
+      ["archived", "Entry", "archived-card"],
+      ["deleted", "Entry", "deleted-card"],
+      ["noAccess", "Asset", "secret-image"],
+    ]);
+    expect(problems[0].links).toEqual([
+      {
+        parentId: "section",
+        fieldId: "cards",
+        locale: FAKE_LOCALE,
+        linkType: "Entry",
+        id: "archived-card",
+      },
+    ]);
+  });
+
+  it("decodes failed references requests by their status", async () => {
+    const space = createSpace(layout);
+    space.referenceFailures.set("section", [
+      Object.assign(new Error("Access denied"), { status: 403 }),
+    ]);
+
+    const problems = await decode(space);
+
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toMatchObject({
+      kind: "noAccess",
+      linkType: "Entry",
+      id: "section",
+      links: [{ parentId: "page", fieldId: "body" }],
+    });
+    expect(problems[0].message).toContain("Access denied");
+  });
+
+  it("falls back to unresolvable when the links can't be looked up", async () => {
+    const space = createSpace(layout);
+    space.getEntitySys = async () => {
+      throw new Error("Network error");
+    };
+
+    const problems = await decode(space);
+
+    expect(problems.map((problem) => problem.kind)).toEqual([
+      "unresolvable",
+      "unresolvable",
+      "unresolvable",
+    ]);
+  });
+});
+
+describe("findReferenceProblems", () => {
+  async function check(space: FakeSpace) {
+    const information = buildReferenceInformation(
+      space.entries.get("page")!.sys,
+      await fetchReferencesIteratively(space, "page", [])
+    );
+    return {
+      information,
+      problems: await findReferenceProblems(space, information),
+    };
+  }
+
+  it("adds links left out of the crawl and archived entities it returned", async () => {
+    const space = createSpace(layout);
+    space.archivedIncluded = true;
+    space.omitted.add("Entry:deleted-card");
+
+    const { problems } = await check(space);
+
+    expect(
+      problems.map(({ kind, linkType, id }) => [kind, linkType, id])
+    ).toEqual([
+      ["noAccess", "Asset", "secret-image"],
+      ["deleted", "Entry", "deleted-card"],
+      ["archived", "Entry", "archived-card"],
+    ]);
+    expect(problems[2].links).toEqual([
+      expect.objectContaining({ parentId: "section", fieldId: "cards" }),
+    ]);
+  });
+
+  it("unarchives archived entities so they are published as drafts", async () => {
+    const space = createSpace(layout);
+    const { information, problems } = await check(space);
+
+    const toPublish = await unarchiveForPublishing(
+      space,
+      information,
+      problems
+    );
+
+    expect(space.unarchived).toEqual(["Entry:archived-card"]);
+    expect(toPublish.draftEntries.map((entry) => entry.sys.id)).toEqual([
+      "section",
+      "archived-card",
+    ]);
+    expect(toPublish.errorCount).toBe(2);
+  });
+});
+
+describe("removeBrokenLink", () => {
+  const brokenLink = (fieldId: string): IReferenceLink => ({
+    parentId: "section",
+    fieldId,
+    locale: FAKE_LOCALE,
+    linkType: "Entry",
+    id: "deleted-card",
+  });
+
+  it("removes the link from a list of links and saves the entry", async () => {
+    const space = createSpace(layout);
+
+    await removeBrokenLink(space, brokenLink("cards"));
+
+    expect(space.updated).toEqual(["section"]);
+    expect(space.entries.get("section")!.fields.cards[FAKE_LOCALE]).toEqual([
+      link("Entry", "archived-card"),
+    ]);
+  });
+
+  it("clears a single link field", async () => {
+    const space = createSpace(layout);
+    space.entries.get("section")!.fields.hero = {
+      [FAKE_LOCALE]: link("Entry", "deleted-card"),
+    };
+
+    await removeBrokenLink(space, brokenLink("hero"));
+
+    expect(space.entries.get("section")!.fields.hero).toEqual({});
+  });
+});
+
+describe("removeLink", () => {
+  it("drops embeds and keeps the text of hyperlinks in rich text", () => {
+    const document = {
+      nodeType: "document",
+      content: [
+        {
+          nodeType: "embedded-entry-block",
+          data: { target: link("Entry", "gone") },
+          content: [],
+        },
+        {
+          nodeType: "paragraph",
+          content: [
+            {
+              nodeType: "entry-hyperlink",
+              data: { target: link("Entry", "gone") },
+              content: [{ nodeType: "text", value: "Read more" }],
+            },
+          ],
+        },
+      ],
+    };
+
+    expect(removeLink(document, "Entry", "gone")).toEqual({
+      nodeType: "document",
+      content: [
+        {
+          nodeType: "paragraph",
+          content: [{ nodeType: "text", value: "Read more" }],
+        },
+      ],
+    });
+  });
+
+  it("leaves links to other entities alone", () => {
+    const value = [link("Entry", "kept"), link("Asset", "gone")];
+    expect(removeLink(value, "Entry", "gone")).toEqual(value);
+  });
+});
@@ -0,0 +1,246 @@
+import { AssetProps, EntryProps, KeyValueMap } from "contentful-management";
+import { EntryReferenceError } from "contentful-management/dist/typings/entities/entry";
+import { IContentClient, IEntitySys } from "./client";
+import {
+  entityKey,
+  IReferenceLink,
+  LinkedEntityType,
+  removeLink,
+} from "./links";
+import { IReferenceInformation } from "./types";
+
+// Why a linked entity can't be reached. "unresolvable" is used when the
+// API said so but the entity couldn't be looked up to find out more.
+export type ReferenceProblemKind =
+  "deleted" | "archived" | "noAccess" | "unresolvable" | "loadFailed";
+
+// A linked entity that is missing from the crawl, with every field that
+// links to it
+export interface IReferenceProblem {
+  kind: ReferenceProblemKind;
+  linkType: LinkedEntityType;
+  id: string;
+  links: IReferenceLink[];
+  // What the API said, for entries whose references couldn't be loaded
+  message?: string;
+}
+
+export function describeReferenceProblem(problem: IReferenceProblem) {
+  const type = problem.linkType.toLowerCase();
+  switch (problem.kind) {
+    case "deleted":
+      return `Link to deleted ${type}`;
+    case "archived":
+      return `Link to archived ${type}`;
+    case "noAccess":
+      return `No access to linked ${type}`;
+    case "unresolvable":
+      return `Link to ${type} that can't be found`;
+    case "loadFailed":
+      return `Links of this ${type} couldn't be loaded`;
+  }
+}
+
+// Turn the errors of a crawl into problems per linked entity. The
+// references endpoint only says a link can't be resolved, so the linked
+// entities are looked up to tell deleted from archived from hidden.
+// Errors the crawler adds for failed references requests carry the HTTP
+// status instead.
+export async function decodeReferenceErrors(
+  client: IContentClient,
+  errors: EntryReferenceError[] | undefined,
+  links: IReferenceLink[]
+): Promise<IReferenceProblem[]> {
+  const unresolved = (errors ?? [])
+    .map((error) => error.details as any)
+    .filter((details) => details?.type === "Link");
+  let existing: Map<string, IEntitySys> | undefined;
+  if (unresolved.length > 0) {
+    try {
+      existing = await client.getEntitySys(unresolved);
+    } catch (error) {
+      console.error("Error looking up unresolvable links:", error);
+    }
+  }
+
+  const problems = new Map<string, IReferenceProblem>();
+  for (const error of errors ?? []) {
+    const details = error.details as any;
+    let problem: Omit<IReferenceProblem, "links">;
+    if (details?.type === "Link") {
+      const sys = existing?.get(entityKey(details.linkType, details.id));
+      problem = {
+        kind: !existing
+          ? "unresolvable"
+          : !sys
+            ? "deleted"
+            : sys.archivedVersion
+              ? "archived"
+              : "noAccess",
+        linkType: details.linkType,
+        id: details.id,
+      };
+    } else {
+      const status = details?.status;
+      problem = {
+        kind:
+          status === 404
+            ? "deleted"
+            : status === 401 || status === 403
+              ? "noAccess"
+              : "loadFailed",
+        linkType: "Entry",
+        id: error.sys.id,
+        message: details?.errors?.[0]?.message,
+      };
+    }
+    const key = entityKey(problem.linkType, problem.id);
+    if (!problems.has(key)) {
+      problems.set(key, {
+        ...problem,
+        links: links.filter(
+          (link) => link.linkType === problem.linkType && link.id === problem.id
+        ),
+      });
+    }
+  }
+  return [...problems.values()];
+}
+
+// Crawl errors, links without a target and archived entities, each of
+// which becomes one problem or more
+export function countBlockingIssues(
+  information: Pick<
+    IReferenceInformation,
+    "errorCount" | "missingLinks" | "archivedEntries" | "archivedAssets"
+  >
+) {
+  return (
+    information.errorCount +
+    information.missingLinks.length +
+    information.archivedEntries.length +
+    information.archivedAssets.length
+  );
+}
+
+// Everything that blocks a crawl from going live as linked: the errors
+// it reported, links whose target it didn't get back, and archived entities
+// it did get back
+export async function findReferenceProblems(
+  client: IContentClient,
+  information: Pick<
+    IReferenceInformation,
+    "errors" | "links" | "missingLinks" | "archivedEntries" | "archivedAssets"
+  >
+): Promise<IReferenceProblem[]> {
+  const missing = information.missingLinks.map(
+    ({ linkType, id }) =>
+      ({
+        sys: { type: "error", id: "notResolvable" },
+        details: { type: "Link", linkType, id },
+      }) as EntryReferenceError
+  );
+  const problems = await decodeReferenceErrors(
+    client,
+    [...(information.errors ?? []), ...missing],
+    information.links
+  );
+  const found = new Set(
+    problems.map((problem) => entityKey(problem.linkType, problem.id))
+  );
+  for (const { sys } of [
+    ...information.archivedEntries,
+    ...information.archivedAssets,
+  ]) {
+    const linkType = sys.type as LinkedEntityType;
+    if (!found.has(entityKey(linkType, sys.id))) {
+      problems.push({
+        kind: "archived",
+        linkType,
+        id: sys.id,
+        links: information.links.filter(
+          (link) => link.linkType === linkType && link.id === sys.id
+        ),
+      });
+    }
+  }
+  return problems;
+}
+
+// Unarchive the archived entities among `problems` and add them to the
+// drafts to publish. Their own links aren't crawled, so anything only they
+// link to shows up on the next check.
+export async function unarchiveForPublishing(
+  client: IContentClient,
+  information: IReferenceInformation,
+  problems: IReferenceProblem[]
+): Promise<IReferenceInformation> {
+  const archived = problems.filter((problem) => problem.kind === "archived");
+  const entries: EntryProps<KeyValueMap>[] = [];
+  const assets: AssetProps[] = [];
+  for (const problem of archived) {
+    const entity = await client.unarchive(problem);
+    if (problem.linkType === "Asset") {
+      assets.push(entity as AssetProps);
+    } else {
+      entries.push(entity as EntryProps<KeyValueMap>);
+    }
+  }
+
+  const unarchived = new Set(
+    archived.map((problem) => entityKey(problem.linkType, problem.id))
+  );
+  const isUnarchived = (linkType: string, id: string) =>
+    unarchived.has(entityKey(linkType, id));
+  const keep = <T extends { sys: { type: string; id: string } }>(
+    entities: T[]
+  ) => entities.filter(({ sys }) => !isUnarchived(sys.type, sys.id));
+  const errors = information.errors?.filter((error) => {
+    const details = error.details as any;
+    return !(
+      details?.type === "Link" && isUnarchived(details.linkType, details.id)
+    );
+  });
+  const allEntries = [...keep(information.entries), ...entries];
+  const allAssets = [...keep(information.assets), ...assets];
+  const draftEntries = [...keep(information.draftEntries), ...entries];
+  const draftAssets = [...keep(information.draftAssets), ...assets];
+  return {
+    ...information,
+    errors,
+    errorCount: errors?.length ?? 0,
+    entries: allEntries,
+    entryCount: allEntries.length,
+    draftEntries,
+    draftEntryCount: draftEntries.length,
+    assets: allAssets,
+    assetCount: allAssets.length,
+    draftAssets,
+    draftAssetCount: draftAssets.length,
+    archivedEntries: keep(information.archivedEntries),
+    archivedAssets: keep(information.archivedAssets),
+    missingLinks: information.missingLinks.filter(
+      (link) => !isUnarchived(link.linkType, link.id)
+    ),
+  };
+}
+
+// Take a broken link out of the entry holding it, in the link's locale,
+// and save the entry
+export async function removeBrokenLink(
+  client: IContentClient,
+  link: IReferenceLink
+): Promise<EntryProps<KeyValueMap>> {
+  const entry = await client.getEntry(link.parentId);
+  const field = entry.fields[link.fieldId];
+  if (!field || !(link.locale in field)) {
+    return entry;
+  }
+  const value = removeLink(field[link.locale], link.linkType, link.id);
+  if (value === undefined) {
+    delete field[link.locale];
+  } else {
+    field[link.locale] = value;
+  }
+  return client.updateEntry(entry);
+}
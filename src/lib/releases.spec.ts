@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from "vitest";
+import { CMAClient } from "@contentful/app-sdk";
+import { ReleaseProps } from "contentful-management";
+import { addToPageRelease, getReleaseUrl, toReleaseLink } from "./releases";
+
+const createRelease = (environmentId: string, ids: string[] = []) =>
+  ({
+    title: "Home page",
+    entities: {
+      sys: { type: "Array" },
+      items: ids.map((id) => toReleaseLink({ type: "Entry", id })),
+    },
+    sys: {
+      id: "release-1",
+      version: 3,
+      space: { sys: { id: "space" } },
+      environment: { sys: { id: environmentId } },
+    },
+  }) as unknown as ReleaseProps;
+
+// A CMA client with only the release endpoints, holding the given release
+function createCma(existing?: ReleaseProps) {
+  const release = {
+    query: vi.fn().mockResolvedValue({ items: existing ? [existing] : [] }),
+    create: vi.fn().mockImplementation(async (_params, data) => data),
+    update: vi.fn().mockImplementation(async (_params, data) => data),
+  };
+  return { cma: { release } as unknown as CMAClient, release };
+}
+
+describe("getReleaseUrl", () => {
+  it("leaves the environment out for master", () => {
+    expect(getReleaseUrl(createRelease("master"))).toBe(
+      "https://app.contentful.com/spaces/space/releases/release-1"
+    );
+    expect(getReleaseUrl(createRelease("staging"))).toBe(
+      "https://app.contentful.com/spaces/space/environments/staging/releases/release-1"
+    );
+  });
+});
+
+describe("addToPageRelease", () => {
+  it("creates a release named after the page when there is none", async () => {
+    const { cma, release } = createCma();
+    const links = [toReleaseLink({ type: "Asset", id: "image" })];
+
+    await addToPageRelease(cma, "page", "Home page", links);
+
+    expect(release.create).toHaveBeenCalledWith(
+      {},
+      { title: "Home page", entities: { sys: { type: "Array" }, items: links } }
+    );
+    expect(release.update).not.toHaveBeenCalled();
+  });
+
+  it("adds only new entities to the page's release", async () => {
+    const { cma, release } = createCma(
+      createRelease("master", ["page", "card"])
+    );
+
+    const updated = await addToPageRelease(cma, "page", "Renamed", [
+      toReleaseLink({ type: "Entry", id: "card" }),
+      toReleaseLink({ type: "Asset", id: "card" }),
+    ]);
+
+    expect(release.update).toHaveBeenCalledWith(
+      { releaseId: "release-1", version: 3 },
+      expect.anything()
+    );
+    expect(updated.title).toBe("Home page");
+    expect(
+      updated.entities.items.map(
+        (item) => `${item.sys.linkType}:${item.sys.id}`
+      )
+    ).toEqual(["Entry:page", "Entry:card", "Asset:card"]);
+  });
+});
@@ -0,0 +1,106 @@
+import { CMAClient } from "@contentful/app-sdk";
+import {
+  Link,
+  ReleaseProps,
+  ScheduledActionProps,
+} from "contentful-management";
+
+type ReleaseEntityLink = Link<"Entry" | "Asset">;
+
+export function getReleaseUrl(release: ReleaseProps) {
+  const { space, environment } = release.sys;
+  const environmentPath =
+    environment.sys.id === "master"
+      ? ""
+      : `/environments/${environment.sys.id}`;
+  return `https://app.contentful.com/spaces/${space.sys.id}${environmentPath}/releases/${release.sys.id}`;
+}
+
+export function toReleaseLink(sys: {
+  type: string;
+  id: string;
+}): ReleaseEntityLink {
+  return {
+    sys: {
+      type: "Link",
+      linkType: sys.type === "Asset" ? "Asset" : "Entry",
+      id: sys.id,
+    },
+  };
+}
+
+// The most recently updated active release that contains the page entry
+export async function findPageRelease(
+  cma: CMAClient,
+  entryId: string
+): Promise<ReleaseProps | undefined> {
+  const result = await cma.release.query({
+    query: {
+      "entities.sys.linkType": "Entry",
+      "entities.sys.id[in]": entryId,
+      "sys.status[in]": "active",
+      order: "-sys.updatedAt",
+      limit: 1,
+    },
+  });
+  return result.items[0];
+}
+
+// Add the entities to the page's existing release, or create a new release
+// named after the page when there isn't one
+export async function addToPageRelease(
+  cma: CMAClient,
+  entryId: string,
+  title: string,
+  links: ReleaseEntityLink[]
+): Promise<ReleaseProps> {
+  const existing = await findPageRelease(cma, entryId);
+  if (!existing) {
+    return cma.release.create(
+      {},
+      { title, entities: { sys: { type: "Array" }, items: links } }
+    );
+  }
+
+  const items = [...existing.entities.items];
+  for (const link of links) {
+    if (
+      !items.some(
+        (item) =>
+          item.sys.linkType === link.sys.linkType && item.sys.id === link.sys.id
+      )
+    ) {
+      items.push(link);
+    }
+  }
+  return cma.release.update(
+    { releaseId: existing.sys.id, version: existing.sys.version },
+    { title: existing.title, entities: { sys: { type: "Array" }, items } }
+  );
+}
+
+export async function scheduleRelease(
+  cma: CMAClient,
+  release: ReleaseProps,
+  scheduledTime: string
+): Promise<ScheduledActionProps> {
+  return cma.scheduledActions.create(
+    { spaceId: release.sys.space.sys.id },
+    {
+      environment: {
+        sys: {
+          type: "Link",
+          linkType: "Environment",
+          id: release.sys.environment.sys.id,
+        },
+      },
+      entity: {
+        sys: { type: "Link", linkType: "Release", id: release.sys.id },
+      },
+      action: "publish",
+      scheduledFor: {
+        datetime: new Date(scheduledTime).toISOString(),
+      },
+    }
+  );
+}
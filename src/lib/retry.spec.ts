@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { getRetryDelay, isRetryable } from "./retry";
+
+const httpError = (status: number, headers?: Record<string, string>) =>
+  Object.assign(new Error(`HTTP ${status}`), { status, headers });
+
+describe("isRetryable", () => {
+  it("retries rate limits, server errors and network failures", () => {
+    expect(isRetryable(httpError(429))).toBe(true);
+    expect(isRetryable(httpError(503))).toBe(true);
+    expect(isRetryable(new TypeError("Failed to fetch"))).toBe(true);
+  });
+
+  it("doesn't retry client errors", () => {
+    expect(isRetryable(httpError(404))).toBe(false);
+    expect(
+      isRetryable(new Error(JSON.stringify({ status: 403, message: "No" })))
+    ).toBe(false);
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("waits until the rate limit resets", () => {
+    expect(
+      getRetryDelay(httpError(429, { "x-contentful-ratelimit-reset": "2" }), 0)
+    ).toBe(2000);
+    expect(
+      getRetryDelay(
+        { response: { status: 429, headers: { "Retry-After": "1" } } },
+        3
+      )
+    ).toBe(1000);
+  });
+
+  it("backs off exponentially otherwise", () => {
+    expect(getRetryDelay(httpError(502), 0, 100)).toBe(100);
+    expect(getRetryDelay(httpError(502), 2, 100)).toBe(400);
+    expect(getRetryDelay(httpError(429), 1, 100)).toBe(200);
+  });
+});
@@ -0,0 +1,97 @@
+import { isAbortError, wait } from "./utils";
+
+export interface IRetryOptions {
+  // Attempts after the first one
+  maxRetries?: number;
+  // First backoff delay when the error doesn't say how long to wait;
+  // doubles with every attempt
+  baseDelayMs?: number;
+  // Stops retrying, and waiting to retry, once aborted
+  signal?: AbortSignal;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+
+// Errors from the CMA client carry the response status and headers in
+// different places depending on how the request was made (directly or
+// through the app SDK), so look in all of them
+function getErrorResponse(error: unknown): {
+  status?: number;
+  headers: Record<string, string>;
+} {
+  const e = error as any;
+  let status: number | undefined =
+    e?.status ?? e?.response?.status ?? e?.statusCode;
+  if (status === undefined && typeof e?.message === "string") {
+    try {
+      status = JSON.parse(e.message).status;
+    } catch {
+      // Not a serialized CMA error
+    }
+  }
+  if (status === undefined && e?.name === "RateLimitExceeded") {
+    status = 429;
+  }
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(
+    e?.response?.headers ?? e?.headers ?? {}
+  )) {
+    headers[name.toLowerCase()] = `${value}`;
+  }
+  return { status, headers };
+}
+
+// HTTP status of a failed CMA request, if the error says
+export function getErrorStatus(error: unknown): number | undefined {
+  return getErrorResponse(error).status;
+}
+
+// Rate limits and server-side or network failures are worth another go;
+// anything else (not found, access denied, ...) would fail the same way
+export function isRetryable(error: unknown) {
+  const { status } = getErrorResponse(error);
+  return status === undefined || status === 429 || status >= 500;
+}
+
+// How long to wait before the next attempt. On 429 the CMA says when the
+// rate limit resets; otherwise back off exponentially.
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  baseDelayMs = DEFAULT_BASE_DELAY_MS
+) {
+  const { status, headers } = getErrorResponse(error);
+  if (status === 429) {
+    const reset = Number(
+      headers["x-contentful-ratelimit-reset"] ?? headers["retry-after"]
+    );
+    if (!Number.isNaN(reset)) {
+      return reset * 1000;
+    }
+  }
+  return baseDelayMs * 2 ** attempt;
+}
+
+// Call `request` until it succeeds, retrying failures that may go away by
+// themselves a bounded number of times
+export async function withRetries<T>(
+  request: () => Promise<T>,
+  options: IRetryOptions = {}
+): Promise<T> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  for (let attempt = 0; ; attempt++) {
+    options.signal?.throwIfAborted();
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= maxRetries || isAbortError(error) || !isRetryable(error)) {
+        throw error;
+      }
+      await wait(
+        getRetryDelay(error, attempt, options.baseDelayMs),
+        options.signal
+      );
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import { createSpace, FakeSpace, IFakeSpaceLayout } from "../../test/mocks";
+import {
+  buildReferenceInformation,
+  fetchReferencesIteratively,
+} from "./crawler";
+import { IPublishPage, IPublishStatus, publishPage } from "./publish";
+import {
+  findPublishedDrafts,
+  IUnpublishPage,
+  rollbackRun,
+  selectFailed,
+  unpublishPage,
+} from "./rollback";
+
+// A page with a draft image, a draft section linking to a draft card, and
+// a changed promo
+const layout: IFakeSpaceLayout = {
+  assets: { image: "draft" },
+  entries: {
+    card: {},
+    section: {
+      links: { cards: [{ linkType: "Entry", id: "card" }] },
+    },
+    promo: { state: "changed" },
+    page: {
+      contentType: "page",
+      links: {
+        image: [{ linkType: "Asset", id: "image" }],
+        body: [
+          { linkType: "Entry", id: "section" },
+          { linkType: "Entry", id: "promo" },
+        ],
+      },
+    },
+  },
+};
+
+async function startRun(space: FakeSpace) {
+  const pageEntry = space.entries.get("page")!;
+  const page: IPublishPage = {
+    sys: pageEntry.sys,
+    publish: () => space.publishEntry(pageEntry),
+  };
+  const information = buildReferenceInformation(
+    pageEntry.sys,
+    await fetchReferencesIteratively(space, "page", [])
+  );
+  const run = async (toPublish = information) => {
+    let status: IPublishStatus | undefined;
+    const success = await publishPage(
+      space,
+      page,
+      toPublish,
+      (update) => (status = update),
+      undefined,
+      "sequential"
+    );
+    return { success, status: status! };
+  };
+  return { information, run };
+}
+
+describe("selectFailed", () => {
+  it("publishes only the failed items and then the page", async () => {
+    const space = createSpace(layout);
+    space.failing.add("Entry:section");
+    const { information, run } = await startRun(space);
+    const first = await run();
+    expect(first.success).toBe(false);
+
+    space.failing.clear();
+    space.published = [];
+    const retry = await run(selectFailed(information, first.status));
+
+    expect(retry.success).toBe(true);
+    expect(space.published).toEqual(["Entry:section", "Entry:page"]);
+  });
+});
+
+describe("rollbackRun", () => {
+  it("unpublishes the drafts a failed run made live, linking entries first", async () => {
+    const space = createSpace(layout);
+    space.failing.add("Entry:promo");
+    const { information, run } = await startRun(space);
+    const { status } = await run();
+
+    const drafts = findPublishedDrafts(information, status);
+    expect(drafts.sort()).toEqual([
+      "Asset:image",
+      "Entry:card",
+      "Entry:section",
+    ]);
+
+    const statuses: IPublishStatus[] = [];
+    const success = await rollbackRun(space, information, drafts, (update) =>
+      statuses.push(update)
+    );
+
+    expect(success).toBe(true);
+    expect(space.unpublished).toEqual([
+      "Entry:section",
+      "Entry:card",
+      "Asset:image",
+    ]);
+    expect(space.entries.get("section")!.sys.publishedVersion).toBeUndefined();
+    expect(statuses[statuses.length - 1]).toMatchObject({
+      total: 3,
+      published: 3,
+      isUnpublish: true,
+    });
+  });
+});
+
+describe("unpublishPage", () => {
+  // A live page with a section linking to a card and an image, all of them
+  // referenced by the page alone
+  const liveLayout: IFakeSpaceLayout = {
+    assets: { image: "published" },
+    entries: {
+      card: { state: "published" },
+      section: {
+        state: "published",
+        links: { cards: [{ linkType: "Entry", id: "card" }] },
+      },
+      page: {
+        contentType: "page",
+        state: "published",
+        links: {
+          image: [{ linkType: "Asset", id: "image" }],
+          body: [{ linkType: "Entry", id: "section" }],
+        },
+      },
+    },
+  };
+
+  async function startUnpublish(space: FakeSpace, unpublish?: () => unknown) {
+    const pageEntry = space.entries.get("page")!;
+    const page: IUnpublishPage = {
+      sys: pageEntry.sys,
+      unpublish: async () =>
+        unpublish
+          ? unpublish()
+          : space.unpublish({ linkType: "Entry", id: "page" }),
+    };
+    const information = buildReferenceInformation(
+      pageEntry.sys,
+      await fetchReferencesIteratively(space, "page", [])
+    );
+    const orphans = {
+      entries: ["card", "section"].map((id) => space.entries.get(id)!),
+      assets: [space.assets.get("image")!],
+    };
+    return (archive: boolean) => {
+      let status: IPublishStatus | undefined;
+      return unpublishPage(
+        space,
+        page,
+        orphans,
+        information,
+        (update) => (status = update),
+        archive
+      ).then((success) => ({ success, status: status! }));
+    };
+  }
+
+  it("takes the page down first, then linking entries and assets", async () => {
+    const space = createSpace(liveLayout);
+    const run = await startUnpublish(space);
+
+    const { success, status } = await run(true);
+
+    const order = ["Entry:page", "Entry:section", "Entry:card", "Asset:image"];
+    expect(success).toBe(true);
+    expect(space.unpublished).toEqual(order);
+    expect(space.archived).toEqual(order);
+    expect(status).toMatchObject({
+      total: 3,
+      published: 3,
+      errors: 0,
+      isUnpublish: true,
+      completed: order,
+    });
+  });
+
+  it("keeps the dependencies live when the page can't be unpublished", async () => {
+    const space = createSpace(liveLayout);
+    const run = await startUnpublish(space, () => {
+      throw new Error("Unpublish failed");
+    });
+
+    const { success, status } = await run(false);
+
+    expect(success).toBe(false);
+    expect(space.unpublished).toEqual([]);
+    expect(space.archived).toEqual([]);
+    expect(status.errored.map((sys) => sys.id)).toEqual(["page"]);
+  });
+});
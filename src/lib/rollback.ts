@@ -0,0 +1,175 @@
+import { isPublished } from "contentful-management";
+import { IContentClient, IEntitySys } from "./client";
+import { orderForPublishing } from "./graph";
+import { entityKey, getEntityKey, LinkedEntityType } from "./links";
+import { IOrphans } from "./orphans";
+import { IPublishStatus } from "./publish";
+import { applySelection } from "./selection";
+import { IReferenceInformation } from "./types";
+
+// The items a run couldn't publish, ready to be published again with
+// `publishPage`; the page follows once they go through
+export function selectFailed(
+  information: IReferenceInformation,
+  status: IPublishStatus
+): IReferenceInformation {
+  const failed = new Set(
+    status.errored.map((sys) => entityKey(sys.type, sys.id))
+  );
+  const excludedKeys = new Set(
+    [
+      ...information.draftEntries,
+      ...information.updatedEntries,
+      ...information.draftAssets,
+      ...information.updatedAssets,
+    ]
+      .map(getEntityKey)
+      .filter((key) => !failed.has(key))
+  );
+  return applySelection(information, excludedKeys);
+}
+
+// Entity keys of the drafts a run published, i.e. what it made live for
+// the first time. Updated items are left out: unpublishing them would take
+// down content that was live before.
+export function findPublishedDrafts(
+  information: IReferenceInformation,
+  status: IPublishStatus
+): string[] {
+  const drafts = new Set(
+    [...information.draftEntries, ...information.draftAssets].map(getEntityKey)
+  );
+  return (status.completed ?? []).filter((key) => drafts.has(key));
+}
+
+// Unpublish the given drafts of a run again. Entries linking to others go
+// first, so nothing live is left linking to an unpublished entry; assets
+// go last. Reported like an unpublish run.
+export async function rollbackRun(
+  client: IContentClient,
+  information: IReferenceInformation,
+  keys: string[],
+  setStatus: (status: IPublishStatus) => void
+): Promise<boolean> {
+  const selected = new Set(keys);
+  const entries = orderForPublishing(
+    information.draftEntries.filter((entry) =>
+      selected.has(getEntityKey(entry))
+    ),
+    information.links
+  )
+    .flat()
+    .reverse();
+  const assets = information.draftAssets.filter((asset) =>
+    selected.has(getEntityKey(asset))
+  );
+  const entities = [...entries, ...assets];
+
+  let published = 0;
+  const errored: IEntitySys[] = [];
+  const completed: string[] = [];
+  const reportStatus = () =>
+    setStatus({
+      total: entities.length,
+      published,
+      errors: errored.length,
+      errored: [...errored],
+      isUnpublish: true,
+      completed: [...completed],
+    });
+  reportStatus();
+
+  for (const entity of entities) {
+    try {
+      await client.unpublish({
+        linkType: entity.sys.type as LinkedEntityType,
+        id: entity.sys.id,
+      });
+      published++;
+      completed.push(getEntityKey(entity));
+    } catch (error) {
+      console.error("Error rolling back", entity.sys.id, ":", error);
+      errored.push(entity.sys);
+    }
+    reportStatus();
+  }
+
+  return errored.length === 0;
+}
+
+export interface IUnpublishPage {
+  sys: IEntitySys;
+  // Unpublishes the page itself; in the app the entry editor does this so
+  // its state stays in sync
+  unpublish: () => Promise<unknown>;
+}
+
+// Unpublish (and optionally archive) the page and the dependencies only it
+// references. Runs in reverse dependency order, so nothing live is left
+// linking to an entity that has already gone.
+export async function unpublishPage(
+  client: IContentClient,
+  page: IUnpublishPage,
+  orphans: IOrphans,
+  information: IReferenceInformation,
+  setStatus: (status: IPublishStatus) => void,
+  archive: boolean
+): Promise<boolean> {
+  const entries = orderForPublishing(orphans.entries, information.links)
+    .flat()
+    .reverse();
+  const entities = [...entries, ...orphans.assets];
+
+  let published = 0;
+  const errored: IEntitySys[] = [];
+  const completed: string[] = [];
+  const reportStatus = () =>
+    setStatus({
+      total: entities.length,
+      published,
+      errors: errored.length,
+      errored: [...errored],
+      isUnpublish: true,
+      completed: [...completed],
+    });
+  reportStatus();
+
+  // The page goes first; if it can't be taken down its dependencies stay
+  try {
+    if (page.sys.publishedVersion) {
+      await page.unpublish();
+    }
+    if (archive) {
+      await client.archive({ linkType: "Entry", id: page.sys.id });
+    }
+    completed.push(entityKey(page.sys.type, page.sys.id));
+  } catch (error) {
+    console.error("Error unpublishing main entry:", error);
+    errored.push(page.sys);
+    reportStatus();
+    return false;
+  }
+
+  for (const entity of entities) {
+    const link = {
+      linkType: entity.sys.type as LinkedEntityType,
+      id: entity.sys.id,
+    };
+    try {
+      if (isPublished(entity)) {
+        await client.unpublish(link);
+      }
+      if (archive) {
+        await client.archive(link);
+      }
+      published++;
+      completed.push(getEntityKey(entity));
+    } catch (error) {
+      console.error(`Error unpublishing ${entity.sys.type}:`, error);
+      errored.push(entity.sys);
+    }
+    reportStatus();
+  }
+
+  return errored.length === 0;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "vitest";
+import { CMAClient } from "@contentful/app-sdk";
+import { ScheduledActionProps } from "contentful-management";
+import { rescheduleActions } from "./scheduledActions";
+
+const params = { spaceId: "space", environmentId: "master" };
+const newTime = "2030-01-02T09:00:00.000Z";
+
+const createAction = (id: string, entryId: string) =>
+  ({
+    sys: { id },
+    entity: { sys: { type: "Link", linkType: "Entry", id: entryId } },
+    action: "publish",
+    scheduledFor: { datetime: "2030-01-01T09:00:00.000Z", timezone: "UTC" },
+  }) as unknown as ScheduledActionProps;
+
+// A CMA client with only the scheduled action endpoints. Every call is
+// recorded in order; the given action IDs can't be created or deleted.
+function createCma({
+  failCreate = [] as string[],
+  failDelete = [] as string[],
+} = {}) {
+  const calls: string[] = [];
+  let created = 0;
+  const scheduledActions = {
+    create: vi.fn(async (_params, data: ScheduledActionProps) => {
+      const entryId = data.entity.sys.id;
+      calls.push(`create ${entryId}`);
+      if (failCreate.includes(entryId)) {
+        throw new Error("Create failed");
+      }
+      return { ...data, sys: { id: `new-${++created}` } };
+    }),
+    delete: vi.fn(async ({ scheduledActionId }) => {
+      calls.push(`delete ${scheduledActionId}`);
+      if (failDelete.includes(scheduledActionId)) {
+        throw new Error("Delete failed");
+      }
+    }),
+  };
+  return { cma: { scheduledActions } as unknown as CMAClient, calls };
+}
+
+describe("rescheduleActions", () => {
+  it("creates each new action before cancelling the old one", async () => {
+    const { cma, calls } = createCma();
+
+    const { created, failed } = await rescheduleActions(
+      cma,
+      params,
+      [createAction("old-1", "page"), createAction("old-2", "card")],
+      newTime
+    );
+
+    expect(calls).toEqual([
+      "create page",
+      "delete old-1",
+      "create card",
+      "delete old-2",
+    ]);
+    expect(failed).toEqual([]);
+    expect(created.map((action) => action.scheduledFor)).toEqual([
+      { datetime: newTime, timezone: "UTC" },
+      { datetime: newTime, timezone: "UTC" },
+    ]);
+  });
+
+  it("keeps the old action when the new one can't be created", async () => {
+    const { cma, calls } = createCma({ failCreate: ["page"] });
+    const action = createAction("old-1", "page");
+
+    const { created, failed } = await rescheduleActions(
+      cma,
+      params,
+      [action],
+      newTime
+    );
+
+    expect(calls).toEqual(["create page"]);
+    expect(created).toEqual([]);
+    expect(failed).toEqual([action]);
+  });
+
+  it("removes the new action again when the old one can't be cancelled", async () => {
+    const { cma, calls } = createCma({ failDelete: ["old-1"] });
+    const action = createAction("old-1", "page");
+
+    const { created, failed } = await rescheduleActions(
+      cma,
+      params,
+      [action],
+      newTime
+    );
+
+    expect(calls).toEqual(["create page", "delete old-1", "delete new-1"]);
+    expect(created).toEqual([]);
+    expect(failed).toEqual([action]);
+  });
+});
@@ -0,0 +1,115 @@
+import { CMAClient } from "@contentful/app-sdk";
+import { ScheduledActionProps } from "contentful-management";
+import { chunk } from "./utils";
+
+// Keeps the `entity.sys.id[in]` filter well inside URL length limits
+const IDS_PER_QUERY = 100;
+
+interface IEnvironmentParams {
+  spaceId: string;
+  environmentId: string;
+}
+
+// Pending scheduled actions targeting any of the given entries, assets or
+// releases, soonest first
+export async function findScheduledActions(
+  cma: CMAClient,
+  { spaceId, environmentId }: IEnvironmentParams,
+  entityIds: string[]
+): Promise<ScheduledActionProps[]> {
+  const actions: ScheduledActionProps[] = [];
+  for (const ids of chunk(entityIds, IDS_PER_QUERY)) {
+    const result = await cma.scheduledActions.getMany({
+      spaceId,
+      query: {
+        "environment.sys.id": environmentId,
+        "entity.sys.id[in]": ids.join(","),
+        "sys.status[in]": "scheduled",
+        limit: 500,
+      },
+    });
+    actions.push(...result.items);
+  }
+  return actions.sort((a, b) =>
+    a.scheduledFor.datetime.localeCompare(b.scheduledFor.datetime)
+  );
+}
+
+// Cancel each action, returning the ones that couldn't be cancelled
+export async function cancelScheduledActions(
+  cma: CMAClient,
+  { spaceId, environmentId }: IEnvironmentParams,
+  actions: ScheduledActionProps[]
+): Promise<ScheduledActionProps[]> {
+  const failed: ScheduledActionProps[] = [];
+  for (const action of actions) {
+    try {
+      await cma.scheduledActions.delete({
+        spaceId,
+        environmentId,
+        scheduledActionId: action.sys.id,
+      });
+    } catch (error) {
+      console.error(
+        `Error cancelling scheduled action ${action.sys.id}:`,
+        error
+      );
+      failed.push(action);
+    }
+  }
+  return failed;
+}
+
+// Create each action again for the new time, then cancel the old one. An
+// action that can't be created keeps its old time; if the old one can't be
+// cancelled, the new one is removed again so nothing runs twice.
+export async function rescheduleActions(
+  cma: CMAClient,
+  params: IEnvironmentParams,
+  actions: ScheduledActionProps[],
+  scheduledTime: string
+): Promise<{
+  created: ScheduledActionProps[];
+  failed: ScheduledActionProps[];
+}> {
+  const created: ScheduledActionProps[] = [];
+  const failed: ScheduledActionProps[] = [];
+  for (const action of actions) {
+    let replacement: ScheduledActionProps;
+    try {
+      replacement = await cma.scheduledActions.create(
+        { spaceId: params.spaceId },
+        {
+          environment: action.environment ?? {
+            sys: {
+              type: "Link",
+              linkType: "Environment",
+              id: params.environmentId,
+            },
+          },
+          entity: action.entity,
+          action: action.action,
+          scheduledFor: {
+            datetime: new Date(scheduledTime).toISOString(),
+            timezone: action.scheduledFor.timezone,
+          },
+        }
+      );
+    } catch (error) {
+      console.error(`Error rescheduling ${action.entity.sys.id}:`, error);
+      failed.push(action);
+      continue;
+    }
+    const [notCancelled] = await cancelScheduledActions(cma, params, [action]);
+    if (!notCancelled) {
+      created.push(replacement);
+      continue;
+    }
+    failed.push(action);
+    if ((await cancelScheduledActions(cma, params, [replacement])).length) {
+      // Both are scheduled now; keep the new one visible as created
+      created.push(replacement);
+    }
+  }
+  return { created, failed };
+}
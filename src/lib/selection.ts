@@ -0,0 +1,73 @@
+import { AssetProps, EntryProps, KeyValueMap } from "contentful-management";
+import { IReferenceLink, entityKey, getEntityKey } from "./links";
+import { IReferenceInformation } from "./types";
+
+export interface IBrokenLink {
+  link: IReferenceLink;
+  target: EntryProps<KeyValueMap> | AssetProps;
+}
+
+// Drop the items the editor unticked from the pending lists, so that
+// publishing only touches the selected subset
+export function applySelection(
+  information: IReferenceInformation,
+  excludedKeys: Set<string>
+): IReferenceInformation {
+  const isSelected = (entity: EntryProps<KeyValueMap> | AssetProps) =>
+    !excludedKeys.has(getEntityKey(entity));
+  const draftEntries = information.draftEntries.filter(isSelected);
+  const updatedEntries = information.updatedEntries.filter(isSelected);
+  const draftAssets = information.draftAssets.filter(isSelected);
+  const updatedAssets = information.updatedAssets.filter(isSelected);
+  return {
+    ...information,
+    draftEntries,
+    updatedEntries,
+    draftAssets,
+    updatedAssets,
+    draftEntryCount: draftEntries.length,
+    updatedEntryCount: updatedEntries.length,
+    draftAssetCount: draftAssets.length,
+    updatedAssetCount: updatedAssets.length,
+  };
+}
+
+// Links from entries that will be live after publishing (the main entry,
+// selected items and already published entries) to drafts that were
+// excluded. Those links would be broken on the live site.
+export function findBrokenLinks(
+  information: IReferenceInformation,
+  excludedKeys: Set<string>
+): IBrokenLink[] {
+  const excludedDrafts = new Map<string, EntryProps<KeyValueMap> | AssetProps>(
+    [...information.draftEntries, ...information.draftAssets]
+      .filter((entity) => excludedKeys.has(getEntityKey(entity)))
+      .map((entity) => [getEntityKey(entity), entity])
+  );
+  if (excludedDrafts.size === 0) {
+    return [];
+  }
+
+  // Entries that stay in draft can't produce a broken link
+  const draftEntryIds = new Set(
+    information.draftEntries
+      .filter((entry) => excludedKeys.has(getEntityKey(entry)))
+      .map((entry) => entry.sys.id)
+  );
+
+  const brokenLinks: IBrokenLink[] = [];
+  const seen = new Set<string>();
+  for (const link of information.links) {
+    const target = excludedDrafts.get(entityKey(link.linkType, link.id));
+    if (!target || draftEntryIds.has(link.parentId)) {
+      continue;
+    }
+    // One warning per parent and target is enough, whatever the locale
+    const key = `${link.parentId}/${link.fieldId}/${getEntityKey(target)}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      brokenLinks.push({ link, target });
+    }
+  }
+  return brokenLinks;
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { FAKE_USER, FakeSpace } from "../../test/mocks";
+import {
+  buildReferenceInformation,
+  fetchReferencesIteratively,
+} from "./crawler";
+import {
+  describePublisher,
+  findStaleDependencies,
+  isPublishedAfter,
+} from "./staleness";
+
+describe("findStaleDependencies", () => {
+  it("lists dependencies published after the page, newest first", async () => {
+    const space = new FakeSpace();
+    space.addEntry("old", {
+      state: "published",
+      publishedAt: "2023-12-01T00:00:00Z",
+    });
+    space.addEntry("newer", {
+      state: "published",
+      publishedAt: "2024-02-01T00:00:00Z",
+    });
+    space.addEntry("newest", {
+      state: "published",
+      publishedAt: "2024-03-01T00:00:00.250Z",
+    });
+    const page = space.addEntry("page", {
+      state: "published",
+      publishedAt: "2024-01-01T00:00:00Z",
+      links: {
+        body: [
+          { linkType: "Entry", id: "old" },
+          { linkType: "Entry", id: "newer" },
+          { linkType: "Entry", id: "newest" },
+        ],
+      },
+    });
+
+    const information = buildReferenceInformation(
+      page.sys,
+      await fetchReferencesIteratively(space, "page", [])
+    );
+    const stale = findStaleDependencies(page.sys, information);
+
+    expect(information.published).toBe(false);
+    expect(stale.map((item) => item.entity.sys.id)).toEqual([
+      "newest",
+      "newer",
+    ]);
+    expect(stale[0]).toMatchObject({
+      publishedAt: "2024-03-01T00:00:00.250Z",
+      publishedBy: { linkType: "User", id: FAKE_USER },
+      parentId: "page",
+      parentPublishedAt: "2024-01-01T00:00:00Z",
+    });
+  });
+});
+
+describe("isPublishedAfter", () => {
+  it("compares dates with and without milliseconds", () => {
+    expect(
+      isPublishedAfter("2024-01-01T00:00:00.500Z", "2024-01-01T00:00:00Z")
+    ).toBe(true);
+    expect(
+      isPublishedAfter("2024-01-01T00:00:00Z", "2024-01-01T00:00:00.500Z")
+    ).toBe(false);
+    expect(isPublishedAfter(undefined, "2024-01-01T00:00:00Z")).toBe(false);
+  });
+});
+
+describe("describePublisher", () => {
+  const users = [{ sys: { id: "u1" }, firstName: "Ada", lastName: "Byron" }];
+
+  it("names users and apps", () => {
+    expect(describePublisher({ linkType: "User", id: "u1" }, users)).toBe(
+      "Ada Byron"
+    );
+    expect(describePublisher({ linkType: "User", id: "u2" }, users)).toBe(
+      "user u2"
+    );
+    expect(
+      describePublisher({ linkType: "AppDefinition", id: "app" }, users)
+    ).toBe("an app");
+    expect(describePublisher(undefined, users)).toBe("unknown");
+  });
+});
@@ -0,0 +1,75 @@
+import { AssetProps, EntryProps, KeyValueMap } from "contentful-management";
+import { IEntitySys } from "./client";
+import { getEntityKey } from "./links";
+import { IReferenceInformation } from "./types";
+
+type Entity = EntryProps<KeyValueMap> | AssetProps;
+
+// A dependency published after the page it was reached from. The live page
+// shows the new version, but anything keyed on the page's own publish
+// (webhooks, CDN caches, static builds) hasn't picked it up.
+export interface IStaleDependency {
+  entity: Entity;
+  publishedAt: string;
+  // Who published it; a user, or an app for automated publishing
+  publishedBy?: { linkType: string; id: string };
+  parentId: string;
+  parentPublishedAt: string;
+}
+
+// Compare as dates: the API doesn't always give the milliseconds, and
+// "…00Z" sorts after "…00.500Z" as a string
+export function isPublishedAfter(
+  publishedAt: string | undefined,
+  parentPublishedAt: string | undefined
+) {
+  return (
+    !!publishedAt &&
+    !!parentPublishedAt &&
+    Date.parse(publishedAt) > Date.parse(parentPublishedAt)
+  );
+}
+
+// The out-of-date dependencies of a crawl, each with the page it is
+// compared against, most recently published first
+export function findStaleDependencies(
+  rootSys: IEntitySys | IEntitySys[],
+  information: IReferenceInformation
+): IStaleDependency[] {
+  const roots = Array.isArray(rootSys) ? rootSys : [rootSys];
+  const stale: IStaleDependency[] = [];
+  for (const entity of [
+    ...information.outOfDateEntries,
+    ...information.outOfDateAssets,
+  ]) {
+    const parentId =
+      information.parentPaths.get(getEntityKey(entity))?.[0] ?? roots[0].id;
+    const parent = roots.find((sys) => sys.id === parentId) ?? roots[0];
+    stale.push({
+      entity,
+      publishedAt: entity.sys.publishedAt!,
+      publishedBy: entity.sys.publishedBy?.sys,
+      parentId: parent.id,
+      parentPublishedAt: parent.publishedAt!,
+    });
+  }
+  return stale.sort(
+    (a, b) => Date.parse(b.publishedAt) - Date.parse(a.publishedAt)
+  );
+}
+
+// A readable name for whoever published a dependency
+export function describePublisher(
+  publishedBy: IStaleDependency["publishedBy"],
+  users: { sys: { id: string }; firstName?: string; lastName?: string }[]
+) {
+  if (!publishedBy) {
+    return "unknown";
+  }
+  if (publishedBy.linkType === "AppDefinition") {
+    return "an app";
+  }
+  const user = users.find((u) => u.sys.id === publishedBy.id);
+  const name = [user?.firstName, user?.lastName].filter(Boolean).join(" ");
+  return name || `user ${publishedBy.id}`;
+}
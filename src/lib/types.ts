@@ -0,0 +1,43 @@
+import { EntryReferenceError } from "contentful-management/dist/typings/entities/entry";
+import { AssetProps, EntryProps, KeyValueMap } from "contentful-management";
+import { IReferenceLink } from "./links";
+
+export interface IReferenceInformation {
+  published: boolean;
+  errors: EntryReferenceError[] | undefined;
+  errorCount: number;
+  entryCount: number;
+  entries: EntryProps<KeyValueMap>[];
+  draftEntries: EntryProps<KeyValueMap>[];
+  updatedEntries: EntryProps<KeyValueMap>[];
+  outOfDateEntries: EntryProps<KeyValueMap>[];
+  draftEntryCount: number;
+  updatedEntryCount: number;
+  assetCount: number;
+  assets: AssetProps[];
+  draftAssets: AssetProps[];
+  updatedAssets: AssetProps[];
+  outOfDateAssets: AssetProps[];
+  draftAssetCount: number;
+  updatedAssetCount: number;
+  // Archived entities the crawl returned; they can't be published as they
+  // are and aren't counted as drafts
+  archivedEntries: EntryProps<KeyValueMap>[];
+  archivedAssets: AssetProps[];
+  // Links whose target the crawl didn't return and the API didn't report
+  missingLinks: IReferenceLink[];
+  links: IReferenceLink[];
+  // Entry IDs each entity was reached through, keyed by `entityKey`
+  parentPaths: Map<string, string[]>;
+}
+
+export interface IAllReferences {
+  entries: EntryProps<KeyValueMap>[];
+  assets: AssetProps[];
+  errors: EntryReferenceError[];
+  links: IReferenceLink[];
+  // Links of crawled entries that are neither included nor reported as
+  // errors in their references response
+  missingLinks: IReferenceLink[];
+  processedEntryIds: Set<string>;
+}
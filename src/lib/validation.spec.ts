@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import { ContentTypeProps } from "contentful-management";
+import { FakeSpace } from "../../test/mocks";
+import { IValidationProblem, validateForPublishing } from "./validation";
+
+const locales = {
+  default: "en-US",
+  available: ["en-US", "de-DE"],
+  optional: {},
+};
+
+const contentTypes = [
+  {
+    sys: { id: "component" },
+    fields: [
+      {
+        id: "title",
+        name: "Title",
+        type: "Symbol",
+        localized: true,
+        required: true,
+        validations: [{ size: { max: 10 } }],
+      },
+      {
+        id: "slug",
+        name: "Slug",
+        type: "Symbol",
+        localized: false,
+        validations: [
+          { regexp: { pattern: "^[a-z-]+$" }, message: "Lowercase only" },
+        ],
+      },
+      {
+        id: "rating",
+        name: "Rating",
+        type: "Integer",
+        localized: false,
+        validations: [{ range: { min: 1, max: 5 } }],
+      },
+      {
+        id: "cards",
+        name: "Cards",
+        type: "Array",
+        localized: false,
+        validations: [{ size: { min: 1, max: 2 } }],
+        items: {
+          type: "Link",
+          linkType: "Entry",
+          validations: [{ linkContentType: ["card"] }],
+        },
+      },
+      {
+        id: "hidden",
+        name: "Hidden",
+        type: "Symbol",
+        localized: false,
+        required: true,
+        omitted: true,
+      },
+    ],
+  },
+] as unknown as ContentTypeProps[];
+
+const describeProblems = (problems: IValidationProblem[]) =>
+  problems.map(({ entity, fieldId, locale, message }) =>
+    [entity.sys.id, fieldId, locale, message].join(" ")
+  );
+
+const link = (id: string) => ({ sys: { type: "Link", linkType: "Entry", id } });
+
+describe("validateForPublishing", () => {
+  it("passes entries that meet every rule", () => {
+    const space = new FakeSpace();
+    const card = space.addEntry("card", { contentType: "card" });
+    const entry = space.addEntry("valid");
+    entry.fields = {
+      title: { "en-US": "Hello", "de-DE": "Hallo" },
+      slug: { "en-US": "hello" },
+      rating: { "en-US": 5 },
+      cards: { "en-US": [link("card")] },
+    };
+
+    expect(
+      validateForPublishing([entry], [], contentTypes, locales, [entry, card])
+    ).toEqual([]);
+  });
+
+  it("reports required fields per locale", () => {
+    const space = new FakeSpace();
+    const entry = space.addEntry("untitled");
+    entry.fields = { title: { "de-DE": "Hallo" }, slug: { "en-US": "" } };
+
+    expect(
+      describeProblems(
+        validateForPublishing([entry], [], contentTypes, locales, [])
+      )
+    ).toEqual(["untitled title en-US is required"]);
+  });
+
+  it("reports size, range and format rules", () => {
+    const space = new FakeSpace();
+    const entry = space.addEntry("invalid");
+    entry.fields = {
+      title: { "en-US": "A much too long title", "de-DE": "Hallo" },
+      slug: { "en-US": "Not A Slug" },
+      rating: { "en-US": 9 },
+      cards: { "en-US": [link("a"), link("b"), link("c")] },
+    };
+
+    expect(
+      describeProblems(
+        validateForPublishing([entry], [], contentTypes, locales, [])
+      )
+    ).toEqual([
+      "invalid title en-US must have at most 10 characters",
+      "invalid slug en-US Lowercase only",
+      "invalid rating en-US must be between 1 and 5",
+      "invalid cards en-US must have between 1 and 2 items",
+    ]);
+  });
+
+  it("checks the content type of linked entries it knows", () => {
+    const space = new FakeSpace();
+    const promo = space.addEntry("promo", { contentType: "promo" });
+    const entry = space.addEntry("mixed");
+    entry.fields = {
+      title: { "en-US": "Hello", "de-DE": "Hallo" },
+      cards: { "en-US": [link("promo"), link("unknown")] },
+    };
+
+    expect(
+      describeProblems(
+        validateForPublishing([entry], [], contentTypes, locales, [promo])
+      )
+    ).toEqual(["mixed cards en-US links to a promo entry, only card allowed"]);
+  });
+
+  it("flags required locales without any content", () => {
+    const space = new FakeSpace();
+    const entry = space.addEntry("english");
+    entry.fields = { title: { "en-US": "Hello" } };
+
+    expect(
+      describeProblems(
+        validateForPublishing([entry], [], contentTypes, locales, [])
+      )
+    ).toEqual([
+      "english  de-DE has no content in required locale de-DE",
+      "english title de-DE is required",
+    ]);
+    expect(
+      validateForPublishing(
+        [entry],
+        [],
+        contentTypes,
+        { ...locales, optional: { "de-DE": true } },
+        []
+      )
+    ).toEqual([]);
+  });
+
+  it("reports assets without a file", () => {
+    const space = new FakeSpace();
+    const asset = space.addAsset("image");
+
+    expect(
+      describeProblems(
+        validateForPublishing([], [asset], contentTypes, locales, [])
+      )
+    ).toEqual(["image file en-US has no file"]);
+  });
+});
@@ -0,0 +1,247 @@
+import {
+  AssetProps,
+  ContentFields,
+  ContentTypeFieldValidation,
+  ContentTypeProps,
+  EntryProps,
+  KeyValueMap,
+} from "contentful-management";
+import { ILinkRef } from "./diff";
+import { collectLinks } from "./links";
+
+// The parts of the SDK's locales API validation needs
+export interface ILocaleSettings {
+  default: string;
+  available: string[];
+  optional: Record<string, boolean>;
+}
+
+export interface IValidationProblem {
+  entity: EntryProps<KeyValueMap> | AssetProps;
+  fieldId?: string;
+  fieldName?: string;
+  locale?: string;
+  message: string;
+}
+
+export function isEmpty(value: unknown) {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function describeRange(
+  range: { min?: number; max?: number },
+  unit: string
+): string {
+  if (range.min !== undefined && range.max !== undefined) {
+    return `between ${range.min} and ${range.max}${unit}`;
+  }
+  if (range.min !== undefined) {
+    return `at least ${range.min}${unit}`;
+  }
+  return `at most ${range.max}${unit}`;
+}
+
+function outOfRange(value: number, range: { min?: number; max?: number }) {
+  return (
+    (range.min !== undefined && value < range.min) ||
+    (range.max !== undefined && value > range.max)
+  );
+}
+
+// Check a single value against a field's (or its items') validations,
+// returning a message per failed rule
+function checkValidations(
+  value: unknown,
+  validations: ContentTypeFieldValidation[] | undefined,
+  getContentType: (link: ILinkRef) => string | undefined
+): string[] {
+  const messages: string[] = [];
+  for (const validation of validations ?? []) {
+    const custom = validation.message ?? undefined;
+
+    if (validation.size) {
+      const length =
+        typeof value === "string" || Array.isArray(value)
+          ? value.length
+          : undefined;
+      if (length !== undefined && outOfRange(length, validation.size)) {
+        messages.push(
+          custom ??
+            `must have ${describeRange(
+              validation.size,
+              typeof value === "string" ? " characters" : " items"
+            )}`
+        );
+      }
+    }
+
+    if (
+      validation.range &&
+      typeof value === "number" &&
+      outOfRange(value, validation.range)
+    ) {
+      messages.push(custom ?? `must be ${describeRange(validation.range, "")}`);
+    }
+
+    if (validation.regexp && typeof value === "string") {
+      try {
+        const regexp = new RegExp(
+          validation.regexp.pattern,
+          validation.regexp.flags ?? undefined
+        );
+        if (!regexp.test(value)) {
+          messages.push(custom ?? "doesn't match the required format");
+        }
+      } catch (error) {
+        // Patterns that aren't valid in JavaScript are left to the API
+      }
+    }
+
+    if (
+      validation.in &&
+      (typeof value === "string" || typeof value === "number") &&
+      !validation.in.includes(value)
+    ) {
+      messages.push(custom ?? `must be one of: ${validation.in.join(", ")}`);
+    }
+
+    if (validation.linkContentType) {
+      const links: ILinkRef[] = [];
+      collectLinks(value, links);
+      for (const link of links) {
+        const contentType = getContentType(link);
+        if (
+          link.linkType === "Entry" &&
+          contentType &&
+          !validation.linkContentType.includes(contentType)
+        ) {
+          messages.push(
+            custom ??
+              `links to a ${contentType} entry, only ${validation.linkContentType.join(
+                ", "
+              )} allowed`
+          );
+        }
+      }
+    }
+  }
+  return messages;
+}
+
+function validateField(
+  entry: EntryProps<KeyValueMap>,
+  field: ContentFields,
+  locales: ILocaleSettings,
+  getContentType: (link: ILinkRef) => string | undefined
+): IValidationProblem[] {
+  const problems: IValidationProblem[] = [];
+  if (field.disabled || field.omitted || field.deleted) {
+    return problems;
+  }
+  // Non-localized fields only hold a value for the default locale
+  const checkedLocales = field.localized
+    ? locales.available
+    : [locales.default];
+  const values: Record<string, unknown> = entry.fields[field.id] ?? {};
+
+  for (const locale of checkedLocales) {
+    const value = values[locale];
+    const problem = {
+      entity: entry,
+      fieldId: field.id,
+      fieldName: field.name,
+      locale,
+    };
+    if (isEmpty(value)) {
+      if (field.required && !locales.optional[locale]) {
+        problems.push({ ...problem, message: "is required" });
+      }
+      continue;
+    }
+    for (const message of checkValidations(
+      value,
+      field.validations,
+      getContentType
+    )) {
+      problems.push({ ...problem, message });
+    }
+    if (Array.isArray(value) && field.items?.validations) {
+      for (const item of value) {
+        for (const message of checkValidations(
+          item,
+          field.items.validations,
+          getContentType
+        )) {
+          problems.push({ ...problem, message });
+        }
+      }
+    }
+  }
+  return problems;
+}
+
+// Dry run of the checks the API makes when publishing, so problems show up
+// before anything goes live. Entries are checked against their content
+// type's field validations in every locale, assets for a file.
+export function validateForPublishing(
+  entries: EntryProps<KeyValueMap>[],
+  assets: AssetProps[],
+  contentTypes: ContentTypeProps[],
+  locales: ILocaleSettings,
+  knownEntries: EntryProps<KeyValueMap>[]
+): IValidationProblem[] {
+  const getContentType = (link: ILinkRef) =>
+    knownEntries.find((entry) => entry.sys.id === link.id)?.sys.contentType.sys
+      .id;
+  const requiredLocales = locales.available.filter(
+    (locale) => !locales.optional[locale]
+  );
+
+  const problems: IValidationProblem[] = [];
+  for (const entry of entries) {
+    const contentType = contentTypes.find(
+      (ct) => ct.sys.id === entry.sys.contentType.sys.id
+    );
+    if (!contentType) {
+      continue;
+    }
+
+    // An entry without anything in a required locale is almost always a
+    // translation that was never started
+    for (const locale of requiredLocales) {
+      const hasContent = Object.values(entry.fields).some(
+        (values) => !isEmpty(values?.[locale])
+      );
+      if (!hasContent && locale !== locales.default) {
+        problems.push({
+          entity: entry,
+          locale,
+          message: `has no content in required locale ${locale}`,
+        });
+      }
+    }
+
+    for (const field of contentType.fields) {
+      problems.push(...validateField(entry, field, locales, getContentType));
+    }
+  }
+
+  for (const asset of assets) {
+    if (isEmpty(asset.fields.file?.[locales.default])) {
+      problems.push({
+        entity: asset,
+        fieldId: "file",
+        fieldName: "File",
+        locale: locales.default,
+        message: "has no file",
+      });
+    }
+  }
+
+  return problems;
+}
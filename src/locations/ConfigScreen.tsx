@@ -1,13 +1,117 @@
 import React, { useCallback, useState, useEffect } from "react";
 import { ConfigAppSDK } from "@contentful/app-sdk";
-import { Heading, Form, Paragraph, Flex } from "@contentful/f36-components";
+import {
+  Heading,
+  Checkbox,
+  Form,
+  Paragraph,
+  Flex,
+  FormControl,
+  Note,
+  Radio,
+  Spinner,
+  TextInput,
+} from "@contentful/f36-components";
+import { ContentTypeProps } from "contentful-management";
 import { css } from "emotion";
+import ContentTypeChecklist from "../components/ContentTypeChecklist";
+import LinkRulesEditor from "../components/LinkRulesEditor";
+import { DEFAULT_CRAWL_CONCURRENCY, LinkRules } from "../lib/crawler";
+import { PublishStrategy } from "../lib/publish";
+import {
+  ensurePublishLogContentType,
+  PUBLISH_LOG_CONTENT_TYPE_NAME,
+} from "../lib/publishLog";
 import { /* useCMA, */ useSDK } from "@contentful/react-apps-toolkit";
 
-export interface AppInstallationParameters {}
+export interface AppInstallationParameters {
+  // Content types that stop recursion when fetching references
+  excludedContentTypes?: string[];
+  // Content types whose entries are pages on the live site
+  pageContentTypes?: string[];
+  publishStrategy?: PublishStrategy;
+  // Number of entries whose references are fetched at the same time
+  crawlConcurrency?: number;
+  // Seconds between checks for changed dependencies; 0 turns them off
+  pollInterval?: number;
+  // Per content type and field: follow, include or ignore its links
+  linkRules?: LinkRules;
+  // Levels of links followed from the page; 0 is unlimited
+  maxDepth?: number;
+  // Record runs as entries of the publish log content type
+  publishLog?: boolean;
+}
+
+// Used when the app has not been configured yet
+export const DEFAULT_EXCLUDED_CONTENT_TYPES = [
+  "article",
+  "page",
+  "articleType",
+  "person",
+  "tag",
+  "template",
+  "customType",
+  "navigation",
+];
+
+export function getExcludedContentTypes(
+  parameters: AppInstallationParameters | null | undefined
+): string[] {
+  return parameters?.excludedContentTypes ?? DEFAULT_EXCLUDED_CONTENT_TYPES;
+}
+
+export const DEFAULT_PAGE_CONTENT_TYPES = ["page", "article"];
+
+export function getPageContentTypes(
+  parameters: AppInstallationParameters | null | undefined
+): string[] {
+  return parameters?.pageContentTypes ?? DEFAULT_PAGE_CONTENT_TYPES;
+}
+
+export function getPublishStrategy(
+  parameters: AppInstallationParameters | null | undefined
+): PublishStrategy {
+  return parameters?.publishStrategy ?? "bulk";
+}
+
+export function getCrawlConcurrency(
+  parameters: AppInstallationParameters | null | undefined
+): number {
+  return parameters?.crawlConcurrency ?? DEFAULT_CRAWL_CONCURRENCY;
+}
+
+export function getLinkRules(
+  parameters: AppInstallationParameters | null | undefined
+): LinkRules {
+  return parameters?.linkRules ?? {};
+}
+
+export const DEFAULT_MAX_DEPTH = 0;
+
+export function getMaxDepth(
+  parameters: AppInstallationParameters | null | undefined
+): number {
+  return parameters?.maxDepth ?? DEFAULT_MAX_DEPTH;
+}
+
+export function isPublishLogEnabled(
+  parameters: AppInstallationParameters | null | undefined
+): boolean {
+  return parameters?.publishLog ?? false;
+}
+
+export const DEFAULT_POLL_INTERVAL = 60;
+
+export function getPollInterval(
+  parameters: AppInstallationParameters | null | undefined
+): number {
+  return parameters?.pollInterval ?? DEFAULT_POLL_INTERVAL;
+}
 
 const ConfigScreen = () => {
   const [parameters, setParameters] = useState<AppInstallationParameters>({});
+  const [contentTypes, setContentTypes] = useState<ContentTypeProps[]>();
+  const [loadError, setLoadError] = useState<string>();
   const sdk = useSDK<ConfigAppSDK>();
 
   const onConfigure = useCallback(async () => {
@@ -19,9 +123,32 @@ const ConfigScreen = () => {
     // related to this app installation
     const currentState = await sdk.app.getCurrentState();
 
+    // Runs are recorded in the space; without the content type only the
+    // history is missing, so the app is installed regardless
+    if (isPublishLogEnabled(parameters)) {
+      try {
+        await ensurePublishLogContentType(sdk.cma);
+      } catch (error) {
+        console.error("Error creating the publish log content type:", error);
+        sdk.notifier.error(
+          "Could not create the publish log content type. Publish history won't be recorded."
+        );
+      }
+    }
+
     return {
       // Parameters to be persisted as the app configuration.
-      parameters,
+      parameters: {
+        ...parameters,
+        excludedContentTypes: getExcludedContentTypes(parameters),
+        pageContentTypes: getPageContentTypes(parameters),
+        publishStrategy: getPublishStrategy(parameters),
+        crawlConcurrency: getCrawlConcurrency(parameters),
+        pollInterval: getPollInterval(parameters),
+        linkRules: getLinkRules(parameters),
+        maxDepth: getMaxDepth(parameters),
+        publishLog: isPublishLogEnabled(parameters),
+      },
       // In case you don't want to submit any update to app
       // locations, you can just pass the currentState as is
       targetState: currentState,
@@ -52,16 +179,184 @@ const ConfigScreen = () => {
     })();
   }, [sdk]);
 
+  useEffect(() => {
+    (async () => {
+      try {
+        const result = await sdk.cma.contentType.getMany({
+          query: { limit: 1000, order: "name" },
+        });
+        setContentTypes(result.items);
+      } catch (error) {
+        console.error("Error loading content types:", error);
+        setLoadError(`${error}`);
+      }
+    })();
+  }, [sdk]);
+
   return (
     <Flex
       flexDirection="column"
       className={css({ margin: "80px", maxWidth: "800px" })}
     >
       <Form>
-        <Heading>App Config</Heading>
+        <Heading>Page Status configuration</Heading>
         <Paragraph>
-          Welcome to your contentful app. This is your config page.
+          Page Status follows links from an entry to find everything that needs
+          publishing with it. Entries of the content types ticked below are
+          still checked, but their own links are not followed. Tick content
+          types that are pages in their own right (articles, navigation, people)
+          so that publishing one page doesn't pull in the rest of the site.
         </Paragraph>
+        {loadError && (
+          <Note variant="negative">
+            Could not load content types: {loadError}
+          </Note>
+        )}
+        {!contentTypes && !loadError && <Spinner />}
+        {contentTypes && (
+          <>
+            <ContentTypeChecklist
+              name="excluded"
+              label="Stop following links at"
+              contentTypes={contentTypes}
+              selected={getExcludedContentTypes(parameters)}
+              onChange={(excludedContentTypes) =>
+                setParameters((current) => ({
+                  ...current,
+                  excludedContentTypes,
+                }))
+              }
+            />
+            <ContentTypeChecklist
+              name="page"
+              label="Page content types"
+              helpText="Entries of these types are pages on the live site. Before publishing a shared component, Page Status lists the live pages it will change."
+              contentTypes={contentTypes}
+              selected={getPageContentTypes(parameters)}
+              onChange={(pageContentTypes) =>
+                setParameters((current) => ({ ...current, pageContentTypes }))
+              }
+            />
+            <LinkRulesEditor
+              contentTypes={contentTypes}
+              rules={getLinkRules(parameters)}
+              onChange={(linkRules) =>
+                setParameters((current) => ({ ...current, linkRules }))
+              }
+            />
+          </>
+        )}
+        <FormControl>
+          <FormControl.Label>Maximum depth</FormControl.Label>
+          <TextInput
+            type="number"
+            min={0}
+            value={`${getMaxDepth(parameters)}`}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (!Number.isNaN(value)) {
+                setParameters((current) => ({
+                  ...current,
+                  maxDepth: Math.max(0, value),
+                }));
+              }
+            }}
+          />
+          <FormControl.HelpText>
+            How many levels of links to follow from the page. Entries at the
+            last level are checked, but their links are not followed. Set to 0
+            for no limit.
+          </FormControl.HelpText>
+        </FormControl>
+        <FormControl as="fieldset">
+          <FormControl.Label>Publishing</FormControl.Label>
+          <Radio.Group
+            name="publishStrategy"
+            value={getPublishStrategy(parameters)}
+            onChange={(e) =>
+              setParameters((current) => ({
+                ...current,
+                publishStrategy: e.target.value as PublishStrategy,
+              }))
+            }
+          >
+            <Radio value="bulk" id="publish-bulk">
+              In bulk actions (faster, falls back to one by one if the space
+              doesn't support them)
+            </Radio>
+            <Radio value="sequential" id="publish-sequential">
+              One entry or asset at a time
+            </Radio>
+          </Radio.Group>
+        </FormControl>
+        <FormControl>
+          <FormControl.Label>Parallel requests</FormControl.Label>
+          <TextInput
+            type="number"
+            min={1}
+            max={10}
+            value={`${getCrawlConcurrency(parameters)}`}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (!Number.isNaN(value)) {
+                setParameters((current) => ({
+                  ...current,
+                  crawlConcurrency: Math.min(10, Math.max(1, value)),
+                }));
+              }
+            }}
+          />
+          <FormControl.HelpText>
+            How many entries to load references for at the same time. Higher is
+            faster on big pages; requests that hit the API rate limit are
+            retried after the limit resets.
+          </FormControl.HelpText>
+        </FormControl>
+        <FormControl>
+          <FormControl.Label>
+            Check for changes every (seconds)
+          </FormControl.Label>
+          <TextInput
+            type="number"
+            min={0}
+            value={`${getPollInterval(parameters)}`}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (!Number.isNaN(value)) {
+                setParameters((current) => ({
+                  ...current,
+                  pollInterval: Math.max(0, value),
+                }));
+              }
+            }}
+          />
+          <FormControl.HelpText>
+            While the sidebar is open it checks whether any dependency was
+            edited, published or deleted, and updates the status if so. Set to 0
+            to only update on changes to the entry itself.
+          </FormControl.HelpText>
+        </FormControl>
+        <FormControl>
+          <FormControl.Label>Publish history</FormControl.Label>
+          <Checkbox
+            id="publish-log"
+            isChecked={isPublishLogEnabled(parameters)}
+            onChange={(e) =>
+              setParameters((current) => ({
+                ...current,
+                publishLog: e.target.checked,
+              }))
+            }
+          >
+            Keep a log of publish runs
+          </Checkbox>
+          <FormControl.HelpText>
+            Saving creates a &quot;{PUBLISH_LOG_CONTENT_TYPE_NAME}&quot; content
+            type and each run adds a draft entry of it. Editors see the content
+            type and its entries like any other, so hide them with a role that
+            has no access to it.
+          </FormControl.HelpText>
+        </FormControl>
       </Form>
     </Flex>
   );
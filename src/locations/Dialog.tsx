@@ -0,0 +1,412 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  Box,
+  Button,
+  Flex,
+  Heading,
+  List,
+  ListItem,
+  Note,
+  Paragraph,
+  Spinner,
+  Stack,
+  Text,
+  TextLink,
+} from "@contentful/f36-components";
+import { DialogAppSDK } from "@contentful/app-sdk";
+import { useSDK } from "@contentful/react-apps-toolkit";
+import {
+  AppInstallationParameters,
+  getCrawlConcurrency,
+  getExcludedContentTypes,
+  getLinkRules,
+  getMaxDepth,
+  getPublishStrategy,
+  isPublishLogEnabled,
+} from "./ConfigScreen";
+import DependencyList from "../components/DependencyList";
+import ReferenceErrorPanel from "../components/ReferenceErrorPanel";
+import { crawlBatch, IBatchInformation, publishBatch } from "../lib/batch";
+import { createContentClient } from "../lib/client";
+import { getEditorEntry, getEntityTitle } from "../lib/entities";
+import { IPublishStatus } from "../lib/publish";
+import { createPublishRun, recordPublishRun } from "../lib/publishLog";
+import {
+  findReferenceProblems,
+  IReferenceProblem,
+  unarchiveForPublishing,
+} from "../lib/referenceErrors";
+import { isAbortError } from "../lib/utils";
+
+// What the dialog is opened with, e.g. from the Page location:
+// `sdk.dialogs.openCurrentApp({ parameters: { entryIds } })`
+export interface IDialogInvocation {
+  entryIds?: string[];
+}
+
+type Status = "Loading" | "Ready" | "Publishing" | "Done" | "Cancelled";
+
+// Several pages crawled together, with one combined list of what needs
+// publishing and one run to publish or schedule all of it
+const Dialog = () => {
+  const sdk = useSDK<DialogAppSDK>();
+  const parameters = sdk.parameters.installation as AppInstallationParameters;
+  const entryIds = useMemo(
+    () => (sdk.parameters.invocation as IDialogInvocation)?.entryIds ?? [],
+    [sdk]
+  );
+  const contentTypes = useMemo(() => sdk.space.getCachedContentTypes(), [sdk]);
+  const locale = sdk.locales.default;
+  const client = useMemo(() => createContentClient(sdk.cma), [sdk]);
+
+  const [status, setStatus] = useState<Status>("Loading");
+  const [progress, setProgress] = useState<{
+    processed: number;
+    total: number;
+  }>();
+  const [batch, setBatch] = useState<IBatchInformation>();
+  const [problems, setProblems] = useState<IReferenceProblem[]>([]);
+  const [unarchive, setUnarchive] = useState<boolean>(false);
+  const [error, setError] = useState<string>();
+  const [publishStatus, setPublishStatus] = useState<IPublishStatus>();
+  const [showSchedule, setShowSchedule] = useState<boolean>(false);
+  const [scheduledDate, setScheduledDate] = useState<string>("");
+  const controllerRef = useRef<AbortController>();
+
+  useEffect(() => {
+    sdk.window.startAutoResizer();
+    return () => sdk.window.stopAutoResizer();
+  }, [sdk]);
+
+  const load = useCallback(async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setStatus("Loading");
+    setError(undefined);
+    setProgress(undefined);
+    try {
+      const batch = await crawlBatch(
+        client,
+        entryIds,
+        getExcludedContentTypes(parameters),
+        setProgress,
+        {
+          concurrency: getCrawlConcurrency(parameters),
+          linkRules: getLinkRules(parameters),
+          maxDepth: getMaxDepth(parameters),
+          signal: controller.signal,
+        }
+      );
+      setProblems(await findReferenceProblems(client, batch.information));
+      setBatch(batch);
+      setStatus("Ready");
+    } catch (error) {
+      if (isAbortError(error)) {
+        if (controllerRef.current === controller) {
+          setStatus("Cancelled");
+        }
+        return;
+      }
+      console.error("Error loading references:", error);
+      setError(`${error}`);
+    }
+  }, [client, entryIds, parameters]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handlePublish = useCallback(
+    async (scheduledTime?: string) => {
+      if (!batch) return;
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setStatus("Publishing");
+      const startedAt = new Date().toISOString();
+      let lastStatus: IPublishStatus | undefined;
+      try {
+        const information = unarchive
+          ? await unarchiveForPublishing(client, batch.information, problems)
+          : batch.information;
+        await publishBatch(
+          client,
+          { ...batch, information },
+          (publishStatus) => {
+            lastStatus = publishStatus;
+            setPublishStatus(publishStatus);
+          },
+          scheduledTime,
+          getPublishStrategy(parameters),
+          controller.signal
+        );
+        setStatus(controller.signal.aborted ? "Cancelled" : "Done");
+        if (lastStatus && isPublishLogEnabled(parameters)) {
+          // One record for the whole run, listed in each page's history
+          await recordPublishRun(
+            sdk.cma,
+            createPublishRun(lastStatus, {
+              entryIds: batch.pages.map((page) => page.sys.id),
+              user: sdk.user,
+              startedAt,
+            }),
+            locale
+          ).catch((error) => console.warn("Could not record the run:", error));
+        }
+      } catch (error) {
+        console.error("Error publishing:", error);
+        setError(`${error}`);
+      }
+    },
+    [batch, client, locale, parameters, problems, sdk, unarchive]
+  );
+
+  const titleOf = (sys: { type: string; id: string }) => {
+    const entity =
+      sys.type === "Asset"
+        ? batch?.information.assets.find((a) => a.sys.id === sys.id)
+        : [...(batch?.pages ?? []), ...(batch?.information.entries ?? [])].find(
+            (e) => e.sys.id === sys.id
+          );
+    return entity
+      ? getEntityTitle(entity, contentTypes, locale)
+      : `${sys.type} ${sys.id}`;
+  };
+
+  if (entryIds.length === 0) {
+    return (
+      <Box padding="spacingL">
+        <Note variant="warning">No entries were passed to the dialog.</Note>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Box padding="spacingL">
+        <Note variant="negative">Error processing: {error}</Note>
+      </Box>
+    );
+  }
+
+  if (status === "Loading" || (status === "Cancelled" && !publishStatus)) {
+    return (
+      <Box padding="spacingL">
+        <Stack flexDirection="column" alignItems="flex-start">
+          {status === "Loading" ? (
+            <>
+              <Flex gap="spacingS" alignItems="center">
+                <Spinner />
+                <Text>
+                  Checking {entryIds.length} entries
+                  {progress &&
+                    ` (${progress.processed} of ${progress.total} loaded)`}
+                </Text>
+              </Flex>
+              <Button
+                variant="secondary"
+                size="small"
+                onClick={() => controllerRef.current?.abort()}
+              >
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <>
+              <Text>Loading was cancelled.</Text>
+              <Button variant="secondary" size="small" onClick={load}>
+                Load again
+              </Button>
+            </>
+          )}
+        </Stack>
+      </Box>
+    );
+  }
+
+  if (publishStatus && status !== "Ready") {
+    const { total, published, errors, errored } = publishStatus;
+    return (
+      <Box padding="spacingL">
+        <Note
+          variant={
+            status === "Publishing"
+              ? "primary"
+              : errors > 0 || status === "Cancelled"
+                ? "warning"
+                : "positive"
+          }
+          title={
+            status === "Publishing"
+              ? publishStatus.isScheduled
+                ? "Scheduling..."
+                : "Publishing..."
+              : status === "Cancelled"
+                ? "Cancelled"
+                : publishStatus.isScheduled
+                  ? `Scheduled for ${new Date(
+                      publishStatus.scheduledTime!
+                    ).toLocaleString()}`
+                  : "Published"
+          }
+        >
+          <Stack flexDirection="column" alignItems="flex-start">
+            <Text>
+              {publishStatus.isScheduled ? "Scheduled" : "Published"}:{" "}
+              {published}/{total}
+            </Text>
+            {status === "Cancelled" && !!publishStatus.remaining?.length && (
+              <Text>Not published: {publishStatus.remaining.length}</Text>
+            )}
+            {errors > 0 && (
+              <>
+                <Text fontColor="red900">
+                  {errors} item{errors === 1 ? "" : "s"} could not be{" "}
+                  {publishStatus.isScheduled ? "scheduled" : "published"}. Pages
+                  are held back when any of their dependencies failed.
+                </Text>
+                <List>
+                  {errored.map((sys) => (
+                    <ListItem key={`${sys.type}:${sys.id}`}>
+                      <TextLink
+                        href={getEditorEntry(sys)}
+                        target="_blank"
+                        rel="noreferrer"
+                      >
+                        {titleOf(sys)}
+                      </TextLink>
+                    </ListItem>
+                  ))}
+                </List>
+              </>
+            )}
+            {status === "Publishing" ? (
+              <Button
+                variant="secondary"
+                size="small"
+                onClick={() => controllerRef.current?.abort()}
+              >
+                Cancel
+              </Button>
+            ) : (
+              <Button
+                variant="secondary"
+                size="small"
+                onClick={() => sdk.close(publishStatus)}
+              >
+                Close
+              </Button>
+            )}
+          </Stack>
+        </Note>
+      </Box>
+    );
+  }
+
+  if (!batch) {
+    return null;
+  }
+
+  const { information, pages, pendingPages } = batch;
+  // Archived linked entities count as dependencies once the editor chose
+  // to unarchive them
+  const archivedCount = unarchive
+    ? problems.filter((problem) => problem.kind === "archived").length
+    : 0;
+  const dependencyCount =
+    information.draftEntryCount +
+    information.updatedEntryCount +
+    information.draftAssetCount +
+    information.updatedAssetCount +
+    archivedCount;
+  const itemCount = dependencyCount + pendingPages.length;
+
+  return (
+    <Box padding="spacingL">
+      <Stack flexDirection="column" alignItems="flex-start" spacing="spacingM">
+        <Heading marginBottom="none">
+          {pages.length} page{pages.length === 1 ? "" : "s"}
+        </Heading>
+        <Paragraph marginBottom="none">
+          {itemCount === 0
+            ? "Everything is published."
+            : `${itemCount} item${itemCount === 1 ? "" : "s"} need${
+                itemCount === 1 ? "s" : ""
+              } publishing: ${pendingPages.length} of the pages and ${dependencyCount} shared or linked item${
+                dependencyCount === 1 ? "" : "s"
+              }, each counted once.`}
+        </Paragraph>
+        <List>
+          {pages.map((page) => (
+            <ListItem key={page.sys.id}>
+              <TextLink
+                href={getEditorEntry(page.sys)}
+                target="_blank"
+                rel="noreferrer"
+              >
+                {getEntityTitle(page, contentTypes, locale)}
+              </TextLink>{" "}
+              <Text fontColor="gray500">
+                {pendingPages.includes(page) ? "pending" : "published"}
+              </Text>
+            </ListItem>
+          ))}
+        </List>
+        <ReferenceErrorPanel
+          problems={problems}
+          entries={[...pages, ...information.entries]}
+          unarchive={unarchive}
+          onToggleUnarchive={() => setUnarchive((prev) => !prev)}
+        />
+        <DependencyList information={information} />
+        {itemCount > 0 &&
+          (showSchedule ? (
+            <Flex gap="spacingS" alignItems="center">
+              <input
+                type="datetime-local"
+                value={scheduledDate}
+                onChange={(e) => setScheduledDate(e.target.value)}
+                style={{
+                  padding: "8px",
+                  borderRadius: "4px",
+                  border: "1px solid #DCDEE4",
+                }}
+              />
+              <Button
+                variant="positive"
+                onClick={() => handlePublish(scheduledDate)}
+                isDisabled={!scheduledDate}
+              >
+                Schedule all
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => setShowSchedule(false)}
+              >
+                Cancel
+              </Button>
+            </Flex>
+          ) : (
+            <Stack spacing="spacingS">
+              <Button variant="positive" onClick={() => handlePublish()}>
+                Publish all
+              </Button>
+              <Button variant="secondary" onClick={() => setShowSchedule(true)}>
+                Schedule publishing
+              </Button>
+            </Stack>
+          ))}
+      </Stack>
+    </Box>
+  );
+};
+
+export default Dialog;
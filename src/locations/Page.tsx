@@ -0,0 +1,590 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  Flex,
+  Heading,
+  List,
+  ListItem,
+  Note,
+  Paragraph,
+  Select,
+  Spinner,
+  Table,
+  TableCellSorting,
+  Text,
+  TextInput,
+  TextLink,
+} from "@contentful/f36-components";
+import { PageAppSDK } from "@contentful/app-sdk";
+import { useSDK } from "@contentful/react-apps-toolkit";
+import { EntryProps, KeyValueMap } from "contentful-management";
+import {
+  AppInstallationParameters,
+  getCrawlConcurrency,
+  getExcludedContentTypes,
+  getLinkRules,
+  getMaxDepth,
+  getPageContentTypes,
+  getPublishStrategy,
+} from "./ConfigScreen";
+import { createContentClient } from "../lib/client";
+import {
+  getContentTypeName,
+  getEditorEntry,
+  getEntityTitle,
+} from "../lib/entities";
+import {
+  checkPage,
+  IPagePublishResult,
+  IPageSummary,
+  listPages,
+  PageState,
+  publishPages,
+  summarizePage,
+} from "../lib/pages";
+import { IPublishStatus } from "../lib/publish";
+import { ReferenceCache } from "../lib/referenceCache";
+import { isAbortError } from "../lib/utils";
+
+type SortColumn = "title" | "status" | "updated";
+
+interface ISort {
+  column: SortColumn;
+  ascending: boolean;
+}
+
+// Summary of a page, or why it couldn't be checked
+type PageCheck = IPageSummary | { error: string };
+
+// Most urgent first when sorting by status; unchecked pages go last
+const STATE_ORDER: Record<PageState, number> = {
+  errors: 0,
+  pending: 1,
+  outOfDate: 2,
+  upToDate: 3,
+};
+
+const STATE_LABELS: Record<PageState, string> = {
+  errors: "Errors",
+  pending: "Pending",
+  outOfDate: "Out of date",
+  upToDate: "Up to date",
+};
+
+function StatusBadge({ check }: { check?: PageCheck }) {
+  if (!check) {
+    return <Text fontColor="gray500">Checking...</Text>;
+  }
+  if ("error" in check) {
+    return <Badge variant="negative">Could not check</Badge>;
+  }
+  switch (check.state) {
+    case "errors":
+      return (
+        <Badge variant="negative">
+          {check.errorCount} error{check.errorCount === 1 ? "" : "s"}
+        </Badge>
+      );
+    case "pending":
+      return (
+        <Badge variant="warning">
+          {check.pendingCount > 0
+            ? `${check.pendingCount} pending`
+            : "Page pending"}
+        </Badge>
+      );
+    case "outOfDate":
+      return <Badge variant="secondary">Out of date</Badge>;
+    case "upToDate":
+      return <Badge variant="positive">Up to date</Badge>;
+  }
+}
+
+// Every page of the space with its Page Status, and publishing of what is
+// pending for many pages at once
+const Page = () => {
+  const sdk = useSDK<PageAppSDK>();
+  const parameters = sdk.parameters.installation as AppInstallationParameters;
+  const contentTypes = useMemo(() => sdk.space.getCachedContentTypes(), [sdk]);
+  const locale = sdk.locales.default;
+
+  const [pages, setPages] = useState<EntryProps<KeyValueMap>[]>();
+  const [loadError, setLoadError] = useState<string>();
+  const [checks, setChecks] = useState<Map<string, PageCheck>>(new Map());
+  const [isChecking, setIsChecking] = useState<boolean>(false);
+  const [search, setSearch] = useState<string>("");
+  const [stateFilter, setStateFilter] = useState<PageState | "all">("all");
+  const [contentTypeFilter, setContentTypeFilter] = useState<string>("all");
+  const [sort, setSort] = useState<ISort>({
+    column: "updated",
+    ascending: false,
+  });
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Set while publishing: the page being published and how far it got
+  const [publishing, setPublishing] = useState<{
+    entryId?: string;
+    done: number;
+    total: number;
+    status?: IPublishStatus;
+  }>();
+  const [results, setResults] = useState<IPagePublishResult[]>();
+  const checkControllerRef = useRef<AbortController>();
+  const publishControllerRef = useRef<AbortController>();
+
+  const client = useMemo(() => createContentClient(sdk.cma), [sdk]);
+  const cache = useMemo(
+    () =>
+      new ReferenceCache({
+        spaceId: sdk.ids.space,
+        environmentId: sdk.ids.environment,
+      }),
+    [sdk]
+  );
+  const crawlOptions = useMemo(
+    () => ({
+      concurrency: getCrawlConcurrency(parameters),
+      linkRules: getLinkRules(parameters),
+      maxDepth: getMaxDepth(parameters),
+    }),
+    [parameters]
+  );
+
+  // Check the given pages one after the other, showing each status as it
+  // comes in
+  const checkPages = useCallback(
+    async (toCheck: EntryProps<KeyValueMap>[]) => {
+      checkControllerRef.current?.abort();
+      const controller = new AbortController();
+      checkControllerRef.current = controller;
+      setIsChecking(true);
+      setChecks((prev) => {
+        const next = new Map(prev);
+        toCheck.forEach((page) => next.delete(page.sys.id));
+        return next;
+      });
+      for (const page of toCheck) {
+        let check: PageCheck;
+        try {
+          const information = await checkPage(
+            client,
+            cache,
+            page.sys,
+            getExcludedContentTypes(parameters),
+            { ...crawlOptions, signal: controller.signal }
+          );
+          check = summarizePage(page.sys, information);
+        } catch (error) {
+          if (isAbortError(error)) {
+            break;
+          }
+          console.error(`Error checking page ${page.sys.id}:`, error);
+          check = { error: `${error}` };
+        }
+        setChecks((prev) => new Map(prev).set(page.sys.id, check));
+      }
+      if (checkControllerRef.current === controller) {
+        checkControllerRef.current = undefined;
+        setIsChecking(false);
+      }
+    },
+    [cache, client, crawlOptions, parameters]
+  );
+
+  const loadPages = useCallback(async () => {
+    setPages(undefined);
+    setLoadError(undefined);
+    setSelected(new Set());
+    try {
+      const loaded = await listPages(sdk.cma, getPageContentTypes(parameters));
+      setPages(loaded);
+      checkPages(loaded);
+    } catch (error) {
+      console.error("Error loading pages:", error);
+      setLoadError(`${error}`);
+    }
+  }, [checkPages, parameters, sdk]);
+
+  useEffect(() => {
+    loadPages();
+  }, [loadPages]);
+
+  useEffect(
+    () => () => {
+      checkControllerRef.current?.abort();
+      publishControllerRef.current?.abort();
+    },
+    []
+  );
+
+  const visiblePages = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const stateOf = (page: EntryProps<KeyValueMap>) => {
+      const check = checks.get(page.sys.id);
+      return check && "state" in check ? check.state : undefined;
+    };
+    const title = (page: EntryProps<KeyValueMap>) =>
+      getEntityTitle(page, contentTypes, locale);
+    const compare = (
+      a: EntryProps<KeyValueMap>,
+      b: EntryProps<KeyValueMap>
+    ) => {
+      switch (sort.column) {
+        case "title":
+          return title(a).localeCompare(title(b));
+        case "status": {
+          const stateA = stateOf(a);
+          const stateB = stateOf(b);
+          return (
+            (stateA ? STATE_ORDER[stateA] : 4) -
+            (stateB ? STATE_ORDER[stateB] : 4)
+          );
+        }
+        case "updated":
+          return a.sys.updatedAt.localeCompare(b.sys.updatedAt);
+      }
+    };
+    return (pages ?? [])
+      .filter(
+        (page) =>
+          (contentTypeFilter === "all" ||
+            page.sys.contentType.sys.id === contentTypeFilter) &&
+          (stateFilter === "all" || stateOf(page) === stateFilter) &&
+          (!query || title(page).toLowerCase().includes(query))
+      )
+      .sort((a, b) => (sort.ascending ? 1 : -1) * compare(a, b));
+  }, [
+    checks,
+    contentTypeFilter,
+    contentTypes,
+    locale,
+    pages,
+    search,
+    sort,
+    stateFilter,
+  ]);
+
+  // Selected pages that have something to publish, in the order shown
+  const publishable = visiblePages.filter((page) => {
+    const check = checks.get(page.sys.id);
+    return (
+      selected.has(page.sys.id) &&
+      check &&
+      "state" in check &&
+      check.state !== "upToDate" &&
+      check.state !== "outOfDate"
+    );
+  });
+
+  const toggleSort = (column: SortColumn) =>
+    setSort((prev) => ({
+      column,
+      ascending: prev.column === column ? !prev.ascending : column === "title",
+    }));
+
+  const sortDirection = (column: SortColumn) =>
+    sort.column === column
+      ? sort.ascending
+        ? TableCellSorting.Ascending
+        : TableCellSorting.Descending
+      : undefined;
+
+  const toggleSelected = (entryId: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(entryId)) {
+        next.delete(entryId);
+      } else {
+        next.add(entryId);
+      }
+      return next;
+    });
+
+  const allVisibleSelected =
+    visiblePages.length > 0 &&
+    visiblePages.every((page) => selected.has(page.sys.id));
+  const toggleAllVisible = () =>
+    setSelected(
+      allVisibleSelected
+        ? new Set()
+        : new Set(visiblePages.map((page) => page.sys.id))
+    );
+
+  const handlePublish = useCallback(async () => {
+    const entryIds = publishable.map((page) => page.sys.id);
+    const controller = new AbortController();
+    publishControllerRef.current = controller;
+    checkControllerRef.current?.abort();
+    setResults(undefined);
+    let done = 0;
+    setPublishing({ done, total: entryIds.length });
+    const results = await publishPages(
+      client,
+      cache,
+      entryIds,
+      {
+        excludedContentTypes: getExcludedContentTypes(parameters),
+        crawl: crawlOptions,
+        strategy: getPublishStrategy(parameters),
+        signal: controller.signal,
+      },
+      (entryId, status) => {
+        done = entryIds.indexOf(entryId);
+        setPublishing({ entryId, done, total: entryIds.length, status });
+      }
+    );
+    publishControllerRef.current = undefined;
+    setPublishing(undefined);
+    setResults(results);
+    setSelected(new Set());
+    // Bring the published pages' statuses up to date
+    const published = new Set(results.map((result) => result.entryId));
+    checkPages((pages ?? []).filter((page) => published.has(page.sys.id)));
+  }, [cache, checkPages, client, crawlOptions, pages, parameters, publishable]);
+
+  // Crawl the selected pages together and publish or schedule them in one
+  // run from the dialog
+  const handleOpenDialog = useCallback(async () => {
+    const entryIds = visiblePages
+      .filter((page) => selected.has(page.sys.id))
+      .map((page) => page.sys.id);
+    await sdk.dialogs.openCurrentApp({
+      title: `Publish ${entryIds.length} pages together`,
+      width: "large",
+      minHeight: 400,
+      shouldCloseOnOverlayClick: false,
+      parameters: { entryIds },
+    });
+    setSelected(new Set());
+    checkPages((pages ?? []).filter((page) => entryIds.includes(page.sys.id)));
+  }, [checkPages, pages, sdk, selected, visiblePages]);
+
+  const pageTitle = (entryId: string) => {
+    const page = pages?.find((p) => p.sys.id === entryId);
+    return page ? getEntityTitle(page, contentTypes, locale) : entryId;
+  };
+
+  const failed = results?.filter((result) => !result.success) ?? [];
+  const checkedCount = (pages ?? []).filter((page) =>
+    checks.has(page.sys.id)
+  ).length;
+  const pageContentTypeIds = getPageContentTypes(parameters);
+
+  return (
+    <Box padding="spacingL">
+      <Flex flexDirection="column" gap="spacingM">
+        <Heading>Page Status</Heading>
+        <Paragraph>
+          Every entry of the page content types set on the configuration screen,
+          with everything that still needs publishing for it.
+        </Paragraph>
+
+        {loadError && (
+          <Note variant="negative">Could not load pages: {loadError}</Note>
+        )}
+        {!pages && !loadError && <Spinner />}
+
+        {publishing && (
+          <Note variant="primary">
+            <Flex flexDirection="column" gap="spacingXs">
+              <Text fontWeight="fontWeightMedium">
+                Publishing page {publishing.done + 1} of {publishing.total}
+                {publishing.entryId && `: ${pageTitle(publishing.entryId)}`}
+              </Text>
+              {publishing.status && (
+                <Text>
+                  Published: {publishing.status.published}/
+                  {publishing.status.total}
+                </Text>
+              )}
+              <Box>
+                <Button
+                  variant="secondary"
+                  size="small"
+                  onClick={() => publishControllerRef.current?.abort()}
+                >
+                  Cancel
+                </Button>
+              </Box>
+            </Flex>
+          </Note>
+        )}
+
+        {results && (
+          <Note
+            variant={failed.length > 0 ? "warning" : "positive"}
+            withCloseButton
+            onClose={() => setResults(undefined)}
+          >
+            <Text>
+              {results.length - failed.length} of {results.length} page
+              {results.length === 1 ? "" : "s"} published
+            </Text>
+            {failed.length > 0 && (
+              <List>
+                {failed.map((result) => (
+                  <ListItem key={result.entryId}>
+                    {pageTitle(result.entryId)}:{" "}
+                    {result.error ??
+                      `${result.status?.errors ?? 0} item(s) could not be published`}
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </Note>
+        )}
+
+        {pages && (
+          <>
+            <Flex gap="spacingS" alignItems="center" flexWrap="wrap">
+              <TextInput
+                placeholder="Search by title"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                style={{ maxWidth: "280px" }}
+              />
+              <Select
+                id="filter-state"
+                value={stateFilter}
+                onChange={(e) =>
+                  setStateFilter(e.target.value as PageState | "all")
+                }
+              >
+                <Select.Option value="all">Any status</Select.Option>
+                {(Object.keys(STATE_LABELS) as PageState[]).map((state) => (
+                  <Select.Option key={state} value={state}>
+                    {STATE_LABELS[state]}
+                  </Select.Option>
+                ))}
+              </Select>
+              {pageContentTypeIds.length > 1 && (
+                <Select
+                  id="filter-content-type"
+                  value={contentTypeFilter}
+                  onChange={(e) => setContentTypeFilter(e.target.value)}
+                >
+                  <Select.Option value="all">Any content type</Select.Option>
+                  {pageContentTypeIds.map((id) => (
+                    <Select.Option key={id} value={id}>
+                      {contentTypes.find((ct) => ct.sys.id === id)?.name ?? id}
+                    </Select.Option>
+                  ))}
+                </Select>
+              )}
+              <Button
+                variant="primary"
+                onClick={handlePublish}
+                isDisabled={publishable.length === 0 || !!publishing}
+              >
+                Publish all pending for {publishable.length} selected page
+                {publishable.length === 1 ? "" : "s"}
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={handleOpenDialog}
+                isDisabled={selected.size === 0 || !!publishing}
+              >
+                Review selected together...
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={loadPages}
+                isDisabled={!!publishing}
+              >
+                Refresh
+              </Button>
+              {isChecking && (
+                <Text fontColor="gray500">
+                  Checked {checkedCount} of {pages.length} pages
+                </Text>
+              )}
+            </Flex>
+
+            <Table>
+              <Table.Head>
+                <Table.Row>
+                  <Table.Cell>
+                    <Checkbox
+                      aria-label="Select all shown pages"
+                      isChecked={allVisibleSelected}
+                      onChange={toggleAllVisible}
+                    />
+                  </Table.Cell>
+                  <Table.Cell
+                    isSortable
+                    sortDirection={sortDirection("title")}
+                    onClick={() => toggleSort("title")}
+                  >
+                    Title
+                  </Table.Cell>
+                  <Table.Cell>Content type</Table.Cell>
+                  <Table.Cell
+                    isSortable
+                    sortDirection={sortDirection("status")}
+                    onClick={() => toggleSort("status")}
+                  >
+                    Status
+                  </Table.Cell>
+                  <Table.Cell
+                    isSortable
+                    sortDirection={sortDirection("updated")}
+                    onClick={() => toggleSort("updated")}
+                  >
+                    Updated
+                  </Table.Cell>
+                </Table.Row>
+              </Table.Head>
+              <Table.Body>
+                {visiblePages.map((page) => (
+                  <Table.Row
+                    key={page.sys.id}
+                    isSelected={selected.has(page.sys.id)}
+                  >
+                    <Table.Cell>
+                      <Checkbox
+                        aria-label="Select page"
+                        isChecked={selected.has(page.sys.id)}
+                        onChange={() => toggleSelected(page.sys.id)}
+                      />
+                    </Table.Cell>
+                    <Table.Cell>
+                      <TextLink
+                        href={getEditorEntry(page.sys)}
+                        target="_blank"
+                        rel="noreferrer"
+                      >
+                        {getEntityTitle(page, contentTypes, locale)}
+                      </TextLink>
+                    </Table.Cell>
+                    <Table.Cell>
+                      {getContentTypeName(page, contentTypes)}
+                    </Table.Cell>
+                    <Table.Cell>
+                      <StatusBadge check={checks.get(page.sys.id)} />
+                    </Table.Cell>
+                    <Table.Cell>
+                      {new Date(page.sys.updatedAt).toLocaleString()}
+                    </Table.Cell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table>
+            {visiblePages.length === 0 && (
+              <Text fontColor="gray500">No pages match.</Text>
+            )}
+          </>
+        )}
+      </Flex>
+    </Box>
+  );
+};
+
+export default Page;
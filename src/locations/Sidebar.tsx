@@ -1,4 +1,10 @@
-import React, { useCallback, useEffect, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
   Button,
   Flex,
@@ -9,52 +15,119 @@ import {
   Text,
   Stack,
   Box,
+  Checkbox,
+  TextLink,
 } from "@contentful/f36-components";
-import { EntryAPI, EntrySys, SidebarAppSDK } from "@contentful/app-sdk";
+import { SidebarAppSDK } from "@contentful/app-sdk";
 import { useSDK } from "@contentful/react-apps-toolkit";
 import {
-  EntryReferenceError,
-  EntryReferenceProps,
-} from "contentful-management/dist/typings/entities/entry";
-import {
-  AssetProps,
-  EntityMetaSysProps,
   EntryProps,
   KeyValueMap,
-  isDraft,
-  isPublished,
-  isUpdated,
+  ReleaseProps,
+  ScheduledActionProps,
 } from "contentful-management";
-
-type Status = "Idle" | "Reading" | "Complete" | "Error" | "Publishing";
-
-// Entry types to exclude from recursive reference fetching
-const EXCLUDED_CONTENT_TYPES = [
-  "article",
-  "page",
-  "articleType",
-  "person",
-  "tag",
-  "template",
-  "customType",
-  "navigation",
-];
-
-interface IReferenceInformation {
-  published: boolean;
-  errors: EntryReferenceError[] | undefined;
-  errorCount: number;
-  entryCount: number;
-  draftEntries: EntryProps<KeyValueMap>[];
-  updatedEntries: EntryProps<KeyValueMap>[];
-  draftEntryCount: number;
-  updatedEntryCount: number;
-  assetCount: number;
-  draftAssets: AssetProps[];
-  updatedAssets: AssetProps[];
-  draftAssetCount: number;
-  updatedAssetCount: number;
-}
+import {
+  AppInstallationParameters,
+  getCrawlConcurrency,
+  getExcludedContentTypes,
+  getLinkRules,
+  getMaxDepth,
+  getPageContentTypes,
+  getPollInterval,
+  getPublishStrategy,
+  isPublishLogEnabled,
+} from "./ConfigScreen";
+import BrokenLinkWarning from "../components/BrokenLinkWarning";
+import CycleWarning from "../components/CycleWarning";
+import DependencyList from "../components/DependencyList";
+import ImpactSummary from "../components/ImpactSummary";
+import PublishHistory from "../components/PublishHistory";
+import StalenessReport from "../components/StalenessReport";
+import LocalePicker from "../components/LocalePicker";
+import LocaleReport from "../components/LocaleReport";
+import ReferenceErrorPanel from "../components/ReferenceErrorPanel";
+import ScheduledActionsPanel from "../components/ScheduledActionsPanel";
+import UnpublishReview, { IOrphanReview } from "../components/UnpublishReview";
+import ValidationReport, {
+  IValidationReview,
+} from "../components/ValidationReport";
+import {
+  canPublishLocales,
+  createContentClient,
+  IEntitySys,
+} from "../lib/client";
+import { buildReferenceInformation } from "../lib/crawler";
+import { IEntityChanges, findPendingChanges } from "../lib/diff";
+import { getEditorEntry } from "../lib/entities";
+import { findCycles } from "../lib/graph";
+import { findImpactedPages } from "../lib/incoming";
+import {
+  entityKey,
+  getEntityKey,
+  IReferenceLink,
+  removeLink,
+} from "../lib/links";
+import { findMissingLocaleContent } from "../lib/locales";
+import {
+  getCrawledLinkSignature,
+  getLinkSignature,
+  haveDependenciesChanged,
+  LINK_CHANGE_DEBOUNCE_MS,
+} from "../lib/liveUpdates";
+import { findOrphans } from "../lib/orphans";
+import {
+  addToPageRelease,
+  findPageRelease,
+  getReleaseUrl,
+  scheduleRelease,
+  toReleaseLink,
+} from "../lib/releases";
+import {
+  cancelScheduledActions,
+  findScheduledActions,
+  rescheduleActions,
+} from "../lib/scheduledActions";
+import { IPublishPage, IPublishStatus, publishPage } from "../lib/publish";
+import { createPublishRun, recordPublishRun } from "../lib/publishLog";
+import {
+  countBlockingIssues,
+  findReferenceProblems,
+  IReferenceProblem,
+  removeBrokenLink,
+  unarchiveForPublishing,
+} from "../lib/referenceErrors";
+import {
+  clearPublishProgress,
+  IPublishProgress,
+  loadPublishProgress,
+  savePublishProgress,
+  selectRemaining,
+} from "../lib/publishProgress";
+import {
+  fetchReferencesIncrementally,
+  readCachedReferences,
+  ReferenceCache,
+} from "../lib/referenceCache";
+import {
+  findPublishedDrafts,
+  rollbackRun,
+  selectFailed,
+  unpublishPage,
+} from "../lib/rollback";
+import { applySelection, findBrokenLinks } from "../lib/selection";
+import { findStaleDependencies } from "../lib/staleness";
+import { IAllReferences, IReferenceInformation } from "../lib/types";
+import { isAbortError } from "../lib/utils";
+import { validateForPublishing } from "../lib/validation";
+
+type Status =
+  | "Idle"
+  | "Reading"
+  | "Complete"
+  | "Error"
+  | "Publishing"
+  | "Cancelled"
+  | "Failed";
 
 interface IProgressStatus {
   processed: number;
@@ -62,417 +135,134 @@ interface IProgressStatus {
   isComplete: boolean;
 }
 
-interface IAllReferences {
-  entries: EntryProps<KeyValueMap>[];
-  assets: AssetProps[];
-  errors: EntryReferenceError[];
-  processedEntryIds: Set<string>;
+// A run that finished with failures, kept for retrying or rolling back
+interface IFailedRun {
+  // What the run was started with, before any retries
+  toPublish: IReferenceInformation;
+  status: IPublishStatus;
+  scheduledTime?: string;
+  locales?: string[];
+  // Entity keys of drafts the run and its retries made live
+  publishedDrafts: string[];
 }
 
 //const debug = console.log;
 const debug = (...args: any[]) => {};
 
-// Function to iteratively fetch references with improved deduplication
-async function fetchReferencesIteratively(
-  sdk: SidebarAppSDK,
-  entryId: string,
-  setProgress?: (progress: { processed: number; total: number }) => void
-): Promise<IAllReferences> {
-  // Initialize the collection of all references
-  const allReferences: IAllReferences = {
-    entries: [],
-    assets: [],
-    errors: [],
-    processedEntryIds: new Set<string>(),
-  };
-
-  // Queue of entries to process
-  const entriesToProcess: string[] = [entryId];
-
-  // Set to track entries that have been added to the queue
-  const entriesQueued = new Set<string>([entryId]);
-
-  // Sets to track unique entry and asset IDs already added to our collections
-  const trackedEntryIds = new Set<string>();
-  const trackedAssetIds = new Set<string>();
-
-  // Counters for progress
-  let processed = 0;
-  let total = 1; // Start with 1 for the initial entry
-
-  // Process the queue until it's empty
-  while (entriesToProcess.length > 0) {
-    // Get the next entry to process
-    const currentEntryId = entriesToProcess.shift()!;
-
-    try {
-      // Skip if we've already processed this entry
-      if (allReferences.processedEntryIds.has(currentEntryId)) {
-        continue;
-      }
-
-      // Mark this entry as processed
-      allReferences.processedEntryIds.add(currentEntryId);
-
-      // Fetch references for this entry
-      const references = await sdk.cma.entry.references({
-        entryId: currentEntryId,
-      });
-
-      // Update progress counters
-      processed++;
-      if (setProgress) {
-        setProgress({ processed, total });
-      }
-
-      if (!references) {
-        continue;
-      }
-
-      debug("references", references);
-
-      // Add any errors
-      if (references.errors) {
-        allReferences.errors.push(...references.errors);
-      }
-
-      // Process assets
-      if (references.includes?.Asset) {
-        for (const asset of references.includes.Asset) {
-          debug(
-            `Looking at asset ${asset.sys.id}: ${
-              asset.fields.title["en-US"]
-            } ${isPublished(asset)}`
-          );
-          const assetId = asset.sys.id;
-          // Check if we already have this asset using the Set for O(1) lookup
-          if (!trackedAssetIds.has(assetId)) {
-            allReferences.assets.push(asset);
-            trackedAssetIds.add(assetId);
-          }
-        }
-      }
-
-      // Process entries
-      const entries = references.includes?.Entry || [];
-
-      // Add entries to our collection (if not already there)
-      for (const entry of entries) {
-        debug(
-          `Looking at entry ${entry.sys.id}: ${entry.sys.contentType.sys.id} ${
-            Object.entries(entry.fields)[0][1]["en-US"]
-          } ${isPublished(entry)}`
-        );
-        const entryId = entry.sys.id;
-        // Use the Set for O(1) lookup instead of array.some() which is O(n)
-        if (!trackedEntryIds.has(entryId)) {
-          allReferences.entries.push(entry);
-          trackedEntryIds.add(entryId);
-        }
-
-        // Queue up this entry for processing if it's not excluded and not already queued
-        const contentType = entry.sys.contentType.sys.id;
-        if (
-          !EXCLUDED_CONTENT_TYPES.includes(contentType) &&
-          !entriesQueued.has(entryId)
-        ) {
-          entriesToProcess.push(entryId);
-          entriesQueued.add(entryId);
-          total++; // Increment total count for progress tracking
-
-          // Update progress
-          if (setProgress) {
-            setProgress({ processed, total });
-          }
-        }
-      }
-    } catch (error) {
-      console.error(
-        "Error fetching references for entry",
-        currentEntryId,
-        ":",
-        error
-      );
-      // Add a generic error
-      allReferences.errors.push({
-        details: {
-          errors: [{ message: `Error fetching references: ${error}` }],
-        },
-        sys: { id: currentEntryId, type: "Entry" },
-      } as any);
-
-      // Update progress
-      processed++;
-      if (setProgress) {
-        setProgress({ processed, total });
+// The entry being edited, published through the editor so its state
+// updates along with it
+function getPublishPage(sdk: SidebarAppSDK): IPublishPage {
+  return {
+    sys: sdk.entry.getSys(),
+    // The editor can't publish single locales, so those go through the CMA
+    publish: async (locales) => {
+      if (!locales) {
+        return sdk.entry.publish();
       }
-    }
-  }
-
-  return allReferences;
+      const entry = await sdk.cma.entry.get({ entryId: sdk.entry.getSys().id });
+      return createContentClient(sdk.cma).publishEntry(entry, locales);
+    },
+  };
 }
-function buildReferenceInformation(
-  entrySys: EntrySys,
-  allReferences: IAllReferences
-): IReferenceInformation {
-  const parent = { sys: entrySys } as any;
-  const publishedDate = entrySys.publishedAt;
-  const published = isPublished(parent) && !isUpdated(parent);
-  const errors = allReferences.errors;
-  const errorCount = errors?.length ?? 0;
-
-  const entries = allReferences.entries;
-  const entryCount = entries?.length ?? 0;
-  const draftEntries = entries?.filter(isDraft) ?? [];
-  const updatedEntries = entries?.filter(isUpdated) ?? [];
-  const draftEntryCount = draftEntries.length;
-  const updatedEntryCount = updatedEntries.length;
-
-  const assets = allReferences.assets;
-  const assetCount = assets?.length ?? 0;
-  const draftAssets = assets?.filter(isDraft) ?? [];
-  const draftAssetCount = draftAssets.length;
-  const updatedAssets = assets?.filter(isUpdated) ?? [];
-  const updatedAssetCount = updatedAssets.length;
-
-  const assetsPublishedAfter = assets?.filter(
-    (a) =>
-      publishedDate && a.sys.publishedAt && a.sys.publishedAt > publishedDate
-  );
-  const entriesPublishedAfter = entries?.filter(
-    (e) =>
-      publishedDate && e.sys.publishedAt && e.sys.publishedAt > publishedDate
+
+// Everything the entry being edited links to, in every locale, as edited
+// (not necessarily saved yet)
+function getEntryLinkSignature(sdk: SidebarAppSDK) {
+  return getLinkSignature(
+    Object.values(sdk.entry.fields).flatMap((field) =>
+      field.locales.map((locale) => field.getValue(locale))
+    )
   );
-  const isOutOfDate =
-    (assetsPublishedAfter?.length ?? 0) > 0 ||
-    (entriesPublishedAfter?.length ?? 0) > 0;
+}
 
-  debug({ published, assetsPublishedAfter, entriesPublishedAfter });
+// Where this entry's references are cached and its publish progress kept
+function getStorageScope(sdk: SidebarAppSDK) {
+  const entrySys = sdk.entry.getSys();
   return {
-    published: published && !isOutOfDate,
-    errors,
-    errorCount,
-    entryCount,
-    draftEntries,
-    updatedEntries,
-    draftEntryCount,
-    updatedEntryCount,
-    assetCount,
-    draftAssets,
-    draftAssetCount,
-    updatedAssets,
-    updatedAssetCount,
+    spaceId: entrySys.space.sys.id,
+    environmentId: entrySys.environment.sys.id,
   };
 }
 
-interface IPublishStatus {
-  total: number;
-  published: number;
-  errors: number;
-  errored: EntityMetaSysProps[];
-  isScheduled?: boolean;
-  scheduledTime?: string;
-  scheduledActionIds?: string[]; // Track created scheduled action IDs
-}
-
-function getEditorEntry(sys: EntityMetaSysProps) {
-  debug("get editor entry", sys);
-  try {
-    const result = `https://app.contentful.com/spaces/${sys.space.sys.id}/${
-      sys.type === "Asset" ? "assets" : "entries"
-    }/${sys.id}`;
-    return result;
-  } catch (error) {
-    console.error("error", error);
-    return "/";
-  }
+// Title of the current entry, used to name its release
+function getPageTitle(sdk: SidebarAppSDK) {
+  const displayField = sdk.contentType.displayField;
+  const value = displayField
+    ? sdk.entry.fields[displayField]?.getValue()
+    : undefined;
+  return typeof value === "string" && value.trim()
+    ? value
+    : `Page ${sdk.entry.getSys().id}`;
 }
 
-async function doPublish(
+// Gather the main entry and its pending dependencies into the page's
+// release and schedule the release, instead of one action per entity
+async function doScheduleRelease(
   information: IReferenceInformation,
   sdk: SidebarAppSDK,
   setStatus: (status: IPublishStatus) => void,
-  scheduledTime?: string
+  scheduledTime: string
 ) {
   const { draftAssets, updatedAssets, draftEntries, updatedEntries } =
     information;
-  const total =
-    draftAssets.length +
-    updatedAssets.length +
-    draftEntries.length +
-    updatedEntries.length;
+  const dependencies = [
+    ...draftAssets,
+    ...updatedAssets,
+    ...draftEntries,
+    ...updatedEntries,
+  ];
+  const total = dependencies.length;
+  const entrySys = sdk.entry.getSys();
 
-  let published = 0;
-  let errors = 0;
-  let errored: EntityMetaSysProps[] = [];
-  const scheduledActionIds: string[] = [];
-
-  const isScheduled = !!scheduledTime;
-
-  // Update status with initial information
   setStatus({
     total,
     published: 0,
     errors: 0,
     errored: [],
-    isScheduled,
+    isScheduled: true,
     scheduledTime,
-    scheduledActionIds,
+    scheduledActionIds: [],
   });
 
-  // Helper function to schedule publish using scheduledActions
-  const schedulePublish = async (
-    entityType: "asset" | "entry",
-    id: string,
-    spaceId: string,
-    environmentId: string
-  ) => {
-    if (!scheduledTime) return false;
-
-    const scheduleDate = new Date(scheduledTime);
-
-    try {
-      // Create a scheduled action for publishing with the correct environment structure
-      const scheduledAction = await sdk.cma.scheduledActions.create(
-        { spaceId },
-        {
-          environment: {
-            sys: {
-              type: "Link",
-              linkType: "Environment",
-              id: environmentId,
-            },
-          },
-          entity: {
-            sys: {
-              type: "Link",
-              linkType: entityType === "entry" ? "Entry" : "Asset",
-              id,
-            },
-          },
-          action: "publish",
-          scheduledFor: {
-            datetime: scheduleDate.toISOString(),
-          },
-        }
-      );
-
-      // Track the created scheduled action ID
-      if (scheduledAction && scheduledAction.sys && scheduledAction.sys.id) {
-        scheduledActionIds.push(scheduledAction.sys.id);
-      }
-
-      return true;
-    } catch (error) {
-      console.error(`Error scheduling ${entityType}:`, error);
-      throw error;
-    }
-  };
-
-  // Helper function to publish immediately
-  const publishImmediately = async (
-    entityType: "asset" | "entry",
-    id: string,
-    entity: any
-  ) => {
-    try {
-      if (entityType === "asset") {
-        await sdk.cma.asset.publish({ assetId: id }, entity);
-      } else {
-        await sdk.cma.entry.publish({ entryId: id }, entity);
-      }
-      return true;
-    } catch (error) {
-      console.error(`Error publishing ${entityType}:`, error);
-      throw error;
-    }
-  };
-
-  // Process assets
-  for (const asset of [...draftAssets, ...updatedAssets]) {
-    try {
-      if (isScheduled) {
-        await schedulePublish(
-          "asset",
-          asset.sys.id,
-          asset.sys.space.sys.id,
-          asset.sys.environment.sys.id
-        );
-      } else {
-        await publishImmediately("asset", asset.sys.id, asset);
-      }
-      published++;
-    } catch (error) {
-      console.error("Error", error);
-      errors++;
-      errored.push(asset.sys);
-    }
+  try {
+    const release = await addToPageRelease(
+      sdk.cma,
+      entrySys.id,
+      getPageTitle(sdk),
+      [entrySys, ...dependencies.map((entity) => entity.sys)].map(toReleaseLink)
+    );
+    const scheduledAction = await scheduleRelease(
+      sdk.cma,
+      release,
+      scheduledTime
+    );
     setStatus({
       total,
-      published,
-      errors,
-      errored,
-      isScheduled,
+      published: total,
+      errors: 0,
+      errored: [],
+      isScheduled: true,
       scheduledTime,
-      scheduledActionIds,
+      scheduledActionIds: [scheduledAction.sys.id],
+      release,
+      completed: [entrySys, ...dependencies.map((entity) => entity.sys)].map(
+        (sys) => entityKey(sys.type, sys.id)
+      ),
     });
-  }
-
-  // Process entries
-  for (const entry of [...draftEntries, ...updatedEntries]) {
-    try {
-      if (isScheduled) {
-        await schedulePublish(
-          "entry",
-          entry.sys.id,
-          entry.sys.space.sys.id,
-          entry.sys.environment.sys.id
-        );
-      } else {
-        await publishImmediately("entry", entry.sys.id, entry);
-      }
-      published++;
-    } catch (error) {
-      console.error("Entry error", error);
-      errors++;
-      errored.push(entry.sys);
-    }
+    return true;
+  } catch (error) {
+    console.error("Error scheduling release:", error);
     setStatus({
       total,
-      published,
-      errors,
-      errored,
-      isScheduled,
-
+      published: 0,
+      errors: 1,
+      errored: [entrySys],
+      isScheduled: true,
       scheduledTime,
-      scheduledActionIds,
+      scheduledActionIds: [],
     });
+    return false;
   }
-
-  // Publish or schedule the main entry if no errors
-  if (errors === 0) {
-    try {
-      const entrySys = sdk.entry.getSys();
-
-      if (isScheduled && scheduledTime) {
-        // Schedule the main entry using scheduledActions
-        await schedulePublish(
-          "entry",
-          entrySys.id,
-          entrySys.space.sys.id,
-          entrySys.environment.sys.id
-        );
-      } else {
-        // Immediate publish for the main entry
-        await sdk.entry.publish();
-      }
-    } catch (error) {
-      console.error("Error with main entry:", error);
-      errors++;
-    }
-  }
-
-  return errors === 0;
 }
 
 const Sidebar = () => {
@@ -480,7 +270,25 @@ const Sidebar = () => {
   const [status, setStatus] = useState<Status>("Idle");
   const [error, setError] = useState<string>();
   const [information, setInformation] = useState<IReferenceInformation>();
+  // Set while a cached status is shown and being checked for changes
+  const [isRevalidating, setIsRevalidating] = useState<boolean>(false);
+  // Result of the last crawl and the entry's saved links at the time, for
+  // live updates
+  const referencesRef = useRef<IAllReferences>();
+  const crawledLinksRef = useRef<string>();
+  // Abort the crawl and the publish run in progress, if any
+  const crawlControllerRef = useRef<AbortController>();
+  // Whether the running crawl drives the status screen, and whether a
+  // background update came in while it ran
+  const isForegroundCrawlRef = useRef<boolean>(false);
+  const backgroundCrawlQueuedRef = useRef<boolean>(false);
+  const publishControllerRef = useRef<AbortController>();
+  const [isCancellable, setIsCancellable] = useState<boolean>(false);
   const [publishStatus, setPublishStatus] = useState<IPublishStatus>();
+  // A publish run of this entry that was cancelled or interrupted
+  const [savedProgress, setSavedProgress] = useState<
+    IPublishProgress | undefined
+  >(() => loadPublishProgress(getStorageScope(sdk), sdk.entry.getSys().id));
   const [progress, setProgress] = useState<IProgressStatus>({
     processed: 0,
     total: 0,
@@ -489,6 +297,101 @@ const Sidebar = () => {
   const [scheduledDate, setScheduledDate] = useState<string>("");
   const [showScheduleOptions, setShowScheduleOptions] =
     useState<boolean>(false);
+  const [useRelease, setUseRelease] = useState<boolean>(false);
+  // Active release that already contains this entry, if any
+  const [pageRelease, setPageRelease] = useState<ReleaseProps>();
+  // Scheduled actions for this entry, its dependencies and its release
+  const [scheduledActions, setScheduledActions] = useState<
+    ScheduledActionProps[]
+  >([]);
+  const [scheduledActionsBusy, setScheduledActionsBusy] =
+    useState<boolean>(false);
+  const [scheduledActionsError, setScheduledActionsError] = useState<string>();
+  // Field-level diffs of updated dependencies, keyed by `entityKey`
+  const [pendingChanges, setPendingChanges] =
+    useState<Map<string, IEntityChanges>>();
+  // Live pages that embed this entry or its updated dependencies
+  const [impactedPages, setImpactedPages] =
+    useState<EntryProps<KeyValueMap>[]>();
+  // Crawl errors, missing link targets and archived entities, decoded per
+  // linked entity
+  const [referenceProblems, setReferenceProblems] = useState<
+    IReferenceProblem[]
+  >([]);
+  // Whether archived linked entities are unarchived and published with
+  // the run
+  const [unarchiveLinked, setUnarchiveLinked] = useState<boolean>(false);
+  // Shown in the reference error panel; nothing is published then
+  const [unarchiveError, setUnarchiveError] = useState<string>();
+  // Set while retiring the page: finding and confirming its orphans
+  const [orphanReview, setOrphanReview] = useState<IOrphanReview>();
+  const [archiveOrphans, setArchiveOrphans] = useState<boolean>(false);
+  // Set while checking content against validation rules before publishing
+  const [validationReview, setValidationReview] = useState<IValidationReview>();
+  // Set while the publish history is shown
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [failedRun, setFailedRun] = useState<IFailedRun>();
+  // Set when a run stopped on an unexpected error
+  const [publishError, setPublishError] = useState<string>();
+  // Pending items the editor chose not to publish, keyed by `entityKey`
+  const [excludedKeys, setExcludedKeys] = useState<Set<string>>(new Set());
+  // Locales to publish when publishing locale by locale; all if not set
+  const [selectedLocales, setSelectedLocales] = useState<string[]>();
+
+  const selectedInformation = useMemo(
+    () => information && applySelection(information, excludedKeys),
+    [information, excludedKeys]
+  );
+  const brokenLinks = useMemo(
+    () => (information ? findBrokenLinks(information, excludedKeys) : []),
+    [information, excludedKeys]
+  );
+
+  // Dependencies published after the page
+  const stale = useMemo(
+    () =>
+      information ? findStaleDependencies(sdk.entry.getSys(), information) : [],
+    [information, sdk]
+  );
+
+  // Circular references among the pending entries; these can't be ordered
+  // and are published together
+  const cycles = useMemo(
+    () =>
+      information
+        ? findCycles(
+            [...information.draftEntries, ...information.updatedEntries],
+            information.links
+          )
+        : [],
+    [information]
+  );
+
+  // Dependencies that aren't translated into every locale
+  const localeCoverage = useMemo(
+    () =>
+      information
+        ? findMissingLocaleContent(
+            information.entries,
+            information.assets,
+            sdk.space.getCachedContentTypes(),
+            sdk.locales
+          )
+        : [],
+    [information, sdk]
+  );
+
+  const toggleExcluded = useCallback((key: string) => {
+    setExcludedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  }, []);
 
   const updateProgress = useCallback(
     (progressData: { processed: number; total: number }) => {
@@ -501,34 +404,373 @@ const Sidebar = () => {
     []
   );
 
-  const retrieveInformation = useCallback(async () => {
-    setStatus("Reading");
-    setProgress({ processed: 0, total: 1, isComplete: false });
+  // Shows the last known state from the cache straight away, if there is
+  // one, and brings it up to date in the background. After publishing the
+  // cached state is known to be stale, so it's skipped. Background updates
+  // (live changes) keep whatever is on screen until the new status is in;
+  // they wait for a running foreground crawl rather than cut it short.
+  const retrieveInformation = useCallback(
+    async ({ showCached = true, inBackground = false } = {}) => {
+      if (
+        inBackground &&
+        crawlControllerRef.current &&
+        isForegroundCrawlRef.current
+      ) {
+        backgroundCrawlQueuedRef.current = true;
+        return;
+      }
+      const entrySys = sdk.entry.getSys();
+      const parameters = sdk.parameters
+        .installation as AppInstallationParameters;
+      const excludedContentTypes = getExcludedContentTypes(parameters);
+      const linkOptions = {
+        linkRules: getLinkRules(parameters),
+        maxDepth: getMaxDepth(parameters),
+      };
+      const client = createContentClient(sdk.cma);
+      const cache = new ReferenceCache(getStorageScope(sdk));
+      // Only the latest crawl gets to update the status
+      crawlControllerRef.current?.abort();
+      const controller = new AbortController();
+      crawlControllerRef.current = controller;
+      isForegroundCrawlRef.current = !inBackground;
+
+      const cached =
+        showCached && !inBackground
+          ? await readCachedReferences(
+              client,
+              cache,
+              entrySys.id,
+              excludedContentTypes,
+              linkOptions
+            ).catch(() => undefined)
+          : undefined;
+      if (cached) {
+        setInformation(buildReferenceInformation(entrySys, cached));
+        setStatus("Complete");
+      }
+      if (cached || inBackground) {
+        setIsRevalidating(true);
+      } else {
+        setStatus("Reading");
+        setProgress({ processed: 0, total: 1, isComplete: false });
+      }
+
+      try {
+        // Iteratively fetch all references with progress updates
+        const allReferences = await fetchReferencesIncrementally(
+          client,
+          cache,
+          entrySys,
+          excludedContentTypes,
+          cached || inBackground ? undefined : updateProgress,
+          {
+            ...linkOptions,
+            concurrency: getCrawlConcurrency(parameters),
+            signal: controller.signal,
+          }
+        );
+
+        referencesRef.current = allReferences;
+        crawledLinksRef.current = getCrawledLinkSignature(
+          allReferences,
+          entrySys.id
+        );
+        // The entry may have been saved or published during the crawl
+        const information = buildReferenceInformation(
+          sdk.entry.getSys(),
+          allReferences
+        );
+        debug("information", information);
+        setInformation(information);
+        if (!inBackground) {
+          setStatus("Complete");
+        }
+      } catch (error) {
+        if (isAbortError(error)) {
+          // Cancelled by the editor, unless a newer crawl took over
+          if (crawlControllerRef.current === controller && !cached) {
+            setStatus("Cancelled");
+          }
+          return;
+        }
+        console.error("Error retrieving information:", error);
+        if (!inBackground) {
+          setStatus("Error");
+          setError(`Error: ${error}`);
+        }
+      } finally {
+        if (crawlControllerRef.current === controller) {
+          crawlControllerRef.current = undefined;
+          setIsRevalidating(false);
+          // A cancelled crawl drops the queued update with it
+          const isQueued = backgroundCrawlQueuedRef.current;
+          backgroundCrawlQueuedRef.current = false;
+          if (isQueued && !controller.signal.aborted) {
+            retrieveInformation({ inBackground: true });
+          }
+        }
+      }
+    },
+    [sdk, updateProgress]
+  );
+
+  useEffect(() => {
+    retrieveInformation();
+  }, [retrieveInformation]);
+
+  // Stop whatever is still running when the sidebar closes. An interrupted
+  // publish run keeps its saved progress.
+  useEffect(
+    () => () => {
+      crawlControllerRef.current?.abort();
+      publishControllerRef.current?.abort();
+    },
+    []
+  );
+
+  // Live updates: crawl again when the entry's links change, and rebuild
+  // the status when only its publishing state does
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const scheduleCrawl = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(
+        () => retrieveInformation({ inBackground: true }),
+        LINK_CHANGE_DEBOUNCE_MS
+      );
+    };
+    const linksChanged = () =>
+      crawledLinksRef.current !== undefined &&
+      getEntryLinkSignature(sdk) !== crawledLinksRef.current;
+
+    const detachSys = sdk.entry.onSysChanged((sys) => {
+      if (linksChanged()) {
+        scheduleCrawl();
+      } else if (referencesRef.current) {
+        setInformation(buildReferenceInformation(sys, referencesRef.current));
+      }
+    });
+    const detachFields = Object.values(sdk.entry.fields).flatMap((field) =>
+      field.locales.map((locale) =>
+        field.getForLocale(locale).onValueChanged(() => {
+          if (linksChanged()) {
+            scheduleCrawl();
+          }
+        })
+      )
+    );
+
+    return () => {
+      clearTimeout(timeout);
+      detachSys();
+      detachFields.forEach((detach) => detach());
+    };
+  }, [retrieveInformation, sdk]);
+
+  // Dependencies are edited elsewhere, so check their versions now and
+  // then while the sidebar is open
+  useEffect(() => {
+    const interval = getPollInterval(
+      sdk.parameters.installation as AppInstallationParameters
+    );
+    if (interval <= 0) {
+      return;
+    }
+    const client = createContentClient(sdk.cma);
+    const timer = setInterval(async () => {
+      if (document.hidden || !referencesRef.current) {
+        return;
+      }
+      try {
+        if (await haveDependenciesChanged(client, referencesRef.current)) {
+          retrieveInformation({ inBackground: true });
+        }
+      } catch (error) {
+        console.warn("Could not check dependencies for changes:", error);
+      }
+    }, interval * 1000);
+    return () => clearInterval(timer);
+  }, [retrieveInformation, sdk]);
 
+  const retrievePageRelease = useCallback(async () => {
     try {
-      const entrySys = sdk.entry.getSys();
+      setPageRelease(await findPageRelease(sdk.cma, sdk.entry.getSys().id));
+    } catch (error) {
+      // Releases aren't available in every space
+      console.warn("Could not look up releases:", error);
+    }
+  }, [sdk]);
+
+  useEffect(() => {
+    retrievePageRelease();
+  }, [retrievePageRelease]);
+
+  // Walk incoming links up from everything whose live version will change:
+  // the entry itself (if live) and its updated dependencies
+  const retrieveImpactedPages = useCallback(async () => {
+    if (!information) return;
+    const entrySys = sdk.entry.getSys();
+    const changing = [
+      ...(entrySys.publishedVersion ? [{ sys: entrySys }] : []),
+      ...information.updatedEntries,
+      ...information.updatedAssets,
+    ];
+    setImpactedPages(undefined);
+    try {
+      setImpactedPages(
+        await findImpactedPages(
+          sdk.cma,
+          changing,
+          getPageContentTypes(
+            sdk.parameters.installation as AppInstallationParameters
+          ),
+          [entrySys.id]
+        )
+      );
+    } catch (error) {
+      console.error("Error retrieving impacted pages:", error);
+      setImpactedPages([]);
+    }
+  }, [information, sdk]);
+
+  useEffect(() => {
+    retrieveImpactedPages();
+  }, [retrieveImpactedPages]);
+
+  const retrieveReferenceProblems = useCallback(async () => {
+    if (!information || countBlockingIssues(information) === 0) {
+      setReferenceProblems([]);
+      return;
+    }
+    try {
+      setReferenceProblems(
+        await findReferenceProblems(createContentClient(sdk.cma), information)
+      );
+    } catch (error) {
+      console.error("Error retrieving reference problems:", error);
+      setReferenceProblems([]);
+    }
+  }, [information, sdk]);
 
-      // Iteratively fetch all references with progress updates
-      const allReferences = await fetchReferencesIteratively(
-        sdk,
-        entrySys.id,
-        updateProgress
+  useEffect(() => {
+    retrieveReferenceProblems();
+  }, [retrieveReferenceProblems]);
+
+  // Links held by this entry are changed in the editor, so the entry
+  // stays in sync and the live update picks the change up. Links in
+  // dependencies are saved straight away and the status reloaded.
+  const handleRemoveLink = useCallback(
+    async (link: IReferenceLink) => {
+      if (link.parentId === sdk.entry.getSys().id) {
+        const field = sdk.entry.fields[link.fieldId].getForLocale(link.locale);
+        const value = removeLink(field.getValue(), link.linkType, link.id);
+        await (value === undefined
+          ? field.removeValue()
+          : field.setValue(value));
+        return;
+      }
+      await removeBrokenLink(createContentClient(sdk.cma), link);
+      retrieveInformation();
+    },
+    [retrieveInformation, sdk]
+  );
+
+  const retrievePendingChanges = useCallback(async () => {
+    if (!information) return;
+    setPendingChanges(undefined);
+    try {
+      setPendingChanges(
+        await findPendingChanges(
+          sdk.cma,
+          information.updatedEntries,
+          information.updatedAssets,
+          sdk.locales.default
+        )
       );
+    } catch (error) {
+      console.error("Error retrieving pending changes:", error);
+    }
+  }, [information, sdk]);
+
+  useEffect(() => {
+    retrievePendingChanges();
+  }, [retrievePendingChanges]);
 
-      setStatus("Complete");
-      const information = buildReferenceInformation(entrySys, allReferences);
-      debug("information", information);
-      setInformation(information);
+  const retrieveScheduledActions = useCallback(async () => {
+    if (!information) return;
+    const entrySys = sdk.entry.getSys();
+    const entityIds = [
+      entrySys.id,
+      ...information.entries.map((e) => e.sys.id),
+      ...information.assets.map((a) => a.sys.id),
+      ...(pageRelease ? [pageRelease.sys.id] : []),
+    ];
+    try {
+      setScheduledActions(
+        await findScheduledActions(
+          sdk.cma,
+          {
+            spaceId: entrySys.space.sys.id,
+            environmentId: entrySys.environment.sys.id,
+          },
+          entityIds
+        )
+      );
     } catch (error) {
-      console.error("Error retrieving information:", error);
-      setStatus("Error");
-      setError(`Error: ${error}`);
+      console.error("Error retrieving scheduled actions:", error);
     }
-  }, [sdk, updateProgress]);
+  }, [information, pageRelease, sdk]);
 
   useEffect(() => {
-    retrieveInformation();
-  }, [retrieveInformation]);
+    retrieveScheduledActions();
+  }, [retrieveScheduledActions]);
+
+  const handleCancelScheduled = useCallback(async () => {
+    const entrySys = sdk.entry.getSys();
+    setScheduledActionsBusy(true);
+    setScheduledActionsError(undefined);
+    const failed = await cancelScheduledActions(
+      sdk.cma,
+      {
+        spaceId: entrySys.space.sys.id,
+        environmentId: entrySys.environment.sys.id,
+      },
+      scheduledActions
+    );
+    if (failed.length > 0) {
+      setScheduledActionsError(
+        `${failed.length} scheduled action(s) could not be cancelled`
+      );
+    }
+    setScheduledActionsBusy(false);
+    retrieveScheduledActions();
+  }, [retrieveScheduledActions, scheduledActions, sdk]);
+
+  const handleReschedule = useCallback(
+    async (scheduledTime: string) => {
+      const entrySys = sdk.entry.getSys();
+      setScheduledActionsBusy(true);
+      setScheduledActionsError(undefined);
+      const { failed } = await rescheduleActions(
+        sdk.cma,
+        {
+          spaceId: entrySys.space.sys.id,
+          environmentId: entrySys.environment.sys.id,
+        },
+        scheduledActions,
+        scheduledTime
+      );
+      if (failed.length > 0) {
+        setScheduledActionsError(
+          `${failed.length} scheduled action(s) could not be rescheduled`
+        );
+      }
+      setScheduledActionsBusy(false);
+      retrieveScheduledActions();
+    },
+    [retrieveScheduledActions, scheduledActions, sdk]
+  );
 
   // Set default scheduled time to tomorrow at current time
   useEffect(() => {
@@ -539,35 +781,389 @@ const Sidebar = () => {
     setScheduledDate(formattedDate);
   }, []);
 
+  // Add a finished run to the publish log in the space, if it is turned on.
+  // Without the log content type the run just isn't recorded.
+  const recordRun = useCallback(
+    (publishStatus: IPublishStatus | undefined, startedAt: string) => {
+      if (
+        !publishStatus ||
+        !isPublishLogEnabled(
+          sdk.parameters.installation as AppInstallationParameters
+        )
+      ) {
+        return;
+      }
+      recordPublishRun(
+        sdk.cma,
+        createPublishRun(publishStatus, {
+          entryIds: [sdk.entry.getSys().id],
+          user: sdk.user,
+          startedAt,
+        }),
+        sdk.locales.default
+      ).catch((error) => console.warn("Could not record the run:", error));
+    },
+    [sdk]
+  );
+
+  // Publish (or schedule) the given items and the page, saving what is
+  // left after every step so an interrupted run can be resumed
+  const startPublish = useCallback(
+    (
+      toPublish: IReferenceInformation,
+      scheduledTime?: string,
+      locales?: string[]
+    ) => {
+      const scope = getStorageScope(sdk);
+      const entryId = sdk.entry.getSys().id;
+      const startedAt = new Date().toISOString();
+      const controller = new AbortController();
+      publishControllerRef.current = controller;
+      setIsCancellable(true);
+      setStatus("Publishing");
+      setSavedProgress(undefined);
+      setPublishError(undefined);
+      let lastStatus: IPublishStatus | undefined;
+      return publishPage(
+        createContentClient(sdk.cma),
+        getPublishPage(sdk),
+        toPublish,
+        (publishStatus) => {
+          lastStatus = publishStatus;
+          setPublishStatus(publishStatus);
+          if (publishStatus.remaining) {
+            savePublishProgress(scope, entryId, {
+              remaining: publishStatus.remaining,
+              total: publishStatus.total,
+              scheduledTime,
+              locales,
+              startedAt,
+            });
+          }
+        },
+        scheduledTime,
+        getPublishStrategy(
+          sdk.parameters.installation as AppInstallationParameters
+        ),
+        controller.signal,
+        locales
+      )
+        .then((status) => {
+          if (controller.signal.aborted) {
+            setSavedProgress(loadPublishProgress(scope, entryId));
+            setStatus("Cancelled");
+          } else {
+            // Anything that failed is reported now rather than resumed
+            clearPublishProgress(scope, entryId);
+            if (!status && lastStatus) {
+              setFailedRun({
+                toPublish,
+                status: lastStatus,
+                scheduledTime,
+                locales,
+                publishedDrafts: findPublishedDrafts(toPublish, lastStatus),
+              });
+              setStatus("Failed");
+            } else {
+              setFailedRun(undefined);
+            }
+          }
+          recordRun(lastStatus, startedAt);
+          return status;
+        })
+        .catch((error) => {
+          // What is left stays saved, so the run can be resumed
+          console.error("Error publishing", error);
+          setSavedProgress(loadPublishProgress(scope, entryId));
+          setPublishError(`${error}`);
+          setFailedRun(undefined);
+          setStatus("Failed");
+          recordRun(lastStatus, startedAt);
+          return false;
+        })
+        .finally(() => {
+          if (publishControllerRef.current === controller) {
+            publishControllerRef.current = undefined;
+            setIsCancellable(false);
+          }
+        });
+    },
+    [recordRun, sdk]
+  );
+
+  // Unarchive the archived linked entities first when the editor opted in,
+  // so they go out as drafts with the rest
+  const withUnarchived = useCallback(
+    async (toPublish: IReferenceInformation) => {
+      if (!unarchiveLinked) {
+        return toPublish;
+      }
+      setUnarchiveError(undefined);
+      try {
+        return await unarchiveForPublishing(
+          createContentClient(sdk.cma),
+          toPublish,
+          referenceProblems
+        );
+      } catch (error) {
+        setUnarchiveError(`${error}`);
+        throw error;
+      }
+    },
+    [referenceProblems, sdk, unarchiveLinked]
+  );
+
   const handlePublish = useCallback(() => {
-    if (!information) return;
-    setStatus("Publishing");
-    doPublish(information, sdk, setPublishStatus)
+    if (!selectedInformation) return;
+    withUnarchived(selectedInformation)
+      .then((toPublish) => startPublish(toPublish, undefined, selectedLocales))
       .then((status) => {
         debug("Done publishing");
         if (status) {
-          retrieveInformation();
+          retrieveInformation({ showCached: false });
         }
       })
       .catch((error) => {
         console.error("Error publishing", error);
       });
-  }, [information, retrieveInformation, sdk]);
+  }, [
+    selectedInformation,
+    selectedLocales,
+    retrieveInformation,
+    startPublish,
+    withUnarchived,
+  ]);
+
+  // Publish only the page, leaving pending dependencies alone, so anything
+  // keyed on its publish picks up the dependencies published since
+  const handleRepublish = useCallback(() => {
+    if (!information) return;
+    const pending = [
+      ...information.draftEntries,
+      ...information.updatedEntries,
+      ...information.draftAssets,
+      ...information.updatedAssets,
+    ].map(getEntityKey);
+    startPublish(applySelection(information, new Set(pending)))
+      .then((status) => {
+        debug("Done re-publishing");
+        if (status) {
+          retrieveInformation({ showCached: false });
+        }
+      })
+      .catch((error) => {
+        console.error("Error re-publishing", error);
+      });
+  }, [information, retrieveInformation, startPublish]);
+
+  // Pick up a cancelled or interrupted run where it stopped, publishing
+  // only what it didn't get to and is still pending
+  const handleResume = useCallback(() => {
+    if (!information || !savedProgress) return;
+    startPublish(
+      selectRemaining(information, savedProgress),
+      savedProgress.scheduledTime,
+      savedProgress.locales
+    )
+      .then((status) => {
+        debug("Done resuming");
+        if (status) {
+          retrieveInformation({ showCached: false });
+        }
+      })
+      .catch((error) => {
+        console.error("Error resuming publish", error);
+      });
+  }, [information, retrieveInformation, savedProgress, startPublish]);
 
-  const handleScheduledPublish = useCallback(() => {
-    if (!information || !scheduledDate) return;
+  const handleDismissResume = useCallback(() => {
+    clearPublishProgress(getStorageScope(sdk), sdk.entry.getSys().id);
+    setSavedProgress(undefined);
+  }, [sdk]);
+
+  const handleCancelLoading = useCallback(() => {
+    crawlControllerRef.current?.abort();
+  }, []);
+
+  const handleCancelPublishing = useCallback(() => {
+    publishControllerRef.current?.abort();
+    setIsCancellable(false);
+  }, []);
+
+  // Publish the failed items again, then the page. Drafts the earlier
+  // attempts made live stay listed for rolling back.
+  const handleRetry = useCallback(() => {
+    if (!failedRun) return;
+    const previous = failedRun;
+    startPublish(
+      selectFailed(previous.toPublish, previous.status),
+      previous.scheduledTime,
+      previous.locales
+    )
+      .then((status) => {
+        debug("Done retrying");
+        if (status) {
+          retrieveInformation({ showCached: false });
+        } else {
+          setFailedRun(
+            (current) =>
+              current && {
+                ...current,
+                toPublish: previous.toPublish,
+                publishedDrafts: [
+                  ...previous.publishedDrafts,
+                  ...current.publishedDrafts,
+                ],
+              }
+          );
+        }
+      })
+      .catch((error) => {
+        console.error("Error retrying", error);
+      });
+  }, [failedRun, retrieveInformation, startPublish]);
+
+  // Unpublish the drafts a failed run made live, so the page isn't left
+  // half live
+  const handleRollback = useCallback(() => {
+    if (!failedRun) return;
     setStatus("Publishing");
-    doPublish(information, sdk, setPublishStatus, scheduledDate)
+    const startedAt = new Date().toISOString();
+    let rollbackStatus: IPublishStatus | undefined;
+    rollbackRun(
+      createContentClient(sdk.cma),
+      failedRun.toPublish,
+      failedRun.publishedDrafts,
+      (publishStatus) => {
+        rollbackStatus = publishStatus;
+        setPublishStatus(publishStatus);
+      }
+    )
+      .finally(() => recordRun(rollbackStatus, startedAt))
+      .then((success) => {
+        debug("Done rolling back");
+        setFailedRun(undefined);
+        if (success) {
+          retrieveInformation({ showCached: false });
+        } else {
+          setStatus("Failed");
+        }
+      })
+      .catch((error) => {
+        console.error("Error rolling back", error);
+      });
+  }, [failedRun, recordRun, retrieveInformation, sdk]);
+
+  // Leave the report of a cancelled or failed run
+  const handleBackFromRun = useCallback(() => {
+    setFailedRun(undefined);
+    setPublishError(undefined);
+    setPublishStatus(undefined);
+    retrieveInformation({ showCached: false });
+  }, [retrieveInformation]);
+
+  const handleScheduledPublish = useCallback(() => {
+    if (!selectedInformation || !scheduledDate) return;
+    if (useRelease) {
+      setStatus("Publishing");
+    }
+    const startedAt = new Date().toISOString();
+    let releaseStatus: IPublishStatus | undefined;
+    const setReleaseStatus = (publishStatus: IPublishStatus) => {
+      releaseStatus = publishStatus;
+      setPublishStatus(publishStatus);
+    };
+    withUnarchived(selectedInformation)
+      .then((toPublish) =>
+        useRelease
+          ? doScheduleRelease(
+              toPublish,
+              sdk,
+              setReleaseStatus,
+              scheduledDate
+            ).finally(() => recordRun(releaseStatus, startedAt))
+          : startPublish(toPublish, scheduledDate)
+      )
       .then((status) => {
         debug("Done scheduling publish");
         if (status) {
           retrieveInformation();
+          retrievePageRelease();
         }
       })
       .catch((error) => {
         console.error("Error scheduling publish", error);
       });
-  }, [information, retrieveInformation, sdk, scheduledDate]);
+  }, [
+    selectedInformation,
+    retrieveInformation,
+    retrievePageRelease,
+    sdk,
+    scheduledDate,
+    startPublish,
+    recordRun,
+    useRelease,
+    withUnarchived,
+  ]);
+
+  // Validate everything that's about to go out and only go ahead straight
+  // away when nothing would be rejected; otherwise the editor gets the list
+  // of problems and can still choose to publish anyway.
+  const handleValidate = useCallback(
+    async (isScheduled: boolean) => {
+      if (!information || !selectedInformation) return;
+      const proceed = isScheduled ? handleScheduledPublish : handlePublish;
+      setValidationReview({ isScheduled });
+      try {
+        const mainEntry = await sdk.cma.entry.get({
+          entryId: sdk.entry.getSys().id,
+        });
+        const problems = validateForPublishing(
+          [
+            mainEntry,
+            ...selectedInformation.draftEntries,
+            ...selectedInformation.updatedEntries,
+          ],
+          [
+            ...selectedInformation.draftAssets,
+            ...selectedInformation.updatedAssets,
+          ],
+          sdk.space.getCachedContentTypes(),
+          isScheduled || !selectedLocales
+            ? sdk.locales
+            : { ...sdk.locales, available: selectedLocales },
+          [mainEntry, ...information.entries]
+        );
+        if (problems.length === 0) {
+          setValidationReview(undefined);
+          proceed();
+        } else {
+          setValidationReview({ isScheduled, problems });
+        }
+      } catch (error) {
+        console.error("Error validating", error);
+        setValidationReview({ isScheduled, error: `${error}` });
+      }
+    },
+    [
+      handlePublish,
+      handleScheduledPublish,
+      information,
+      selectedInformation,
+      selectedLocales,
+      sdk,
+    ]
+  );
+
+  const handleConfirmValidation = useCallback(() => {
+    if (!validationReview) return;
+    setValidationReview(undefined);
+    if (validationReview.isScheduled) {
+      handleScheduledPublish();
+    } else {
+      handlePublish();
+    }
+  }, [handlePublish, handleScheduledPublish, validationReview]);
 
   const toggleScheduleOptions = useCallback(() => {
     setShowScheduleOptions((prev) => !prev);
@@ -577,6 +1173,68 @@ const Sidebar = () => {
     retrieveInformation();
   }, [retrieveInformation]);
 
+  const handleReviewOrphans = useCallback(() => {
+    if (!information) return;
+    setOrphanReview({
+      progress: {
+        processed: 0,
+        total: information.entryCount + information.assetCount,
+      },
+    });
+    findOrphans(
+      sdk.cma,
+      sdk.entry.getSys().id,
+      information.entries,
+      information.assets,
+      getExcludedContentTypes(
+        sdk.parameters.installation as AppInstallationParameters
+      ),
+      // Updates are dropped once the editor has gone back
+      (progress) => setOrphanReview((prev) => prev && { progress })
+    )
+      .then((orphans) => setOrphanReview((prev) => prev && { orphans }))
+      .catch((error) => {
+        console.error("Error finding orphans", error);
+        setOrphanReview((prev) => prev && { error: `${error}` });
+      });
+  }, [information, sdk]);
+
+  const handleUnpublish = useCallback(() => {
+    if (!information || !orphanReview?.orphans) return;
+    setStatus("Publishing");
+    const startedAt = new Date().toISOString();
+    let unpublishStatus: IPublishStatus | undefined;
+    unpublishPage(
+      createContentClient(sdk.cma),
+      { sys: sdk.entry.getSys(), unpublish: () => sdk.entry.unpublish() },
+      orphanReview.orphans,
+      information,
+      (publishStatus) => {
+        unpublishStatus = publishStatus;
+        setPublishStatus(publishStatus);
+      },
+      archiveOrphans
+    )
+      .finally(() => recordRun(unpublishStatus, startedAt))
+      .then((status) => {
+        debug("Done unpublishing");
+        if (status) {
+          setOrphanReview(undefined);
+          retrieveInformation({ showCached: false });
+        }
+      })
+      .catch((error) => {
+        console.error("Error unpublishing", error);
+      });
+  }, [
+    archiveOrphans,
+    information,
+    orphanReview,
+    recordRun,
+    retrieveInformation,
+    sdk,
+  ]);
+
   if (status === "Idle" || status === "Reading") {
     return (
       <Box padding="spacingM">
@@ -609,27 +1267,100 @@ const Sidebar = () => {
               </div>
             </Stack>
           )}
+          {status === "Reading" && (
+            <Button
+              variant="secondary"
+              size="small"
+              onClick={handleCancelLoading}
+            >
+              Cancel
+            </Button>
+          )}
+        </Stack>
+      </Box>
+    );
+  }
+
+  if (status === "Cancelled" && !publishStatus?.isCancelled) {
+    return (
+      <Box padding="spacingM">
+        <Stack
+          spacing="spacingS"
+          flexDirection="column"
+          alignItems="flex-start"
+        >
+          <Note variant="warning">Loading references was cancelled</Note>
+          <Button onClick={handleRefresh} variant="secondary">
+            Load again
+          </Button>
         </Stack>
       </Box>
     );
   }
 
-  if (status === "Publishing" && publishStatus) {
+  if (
+    (status === "Publishing" ||
+      status === "Cancelled" ||
+      status === "Failed") &&
+    publishStatus
+  ) {
+    const remainingCount = savedProgress ? savedProgress.remaining.length : 0;
+    const rollbackCount = failedRun?.publishedDrafts.length ?? 0;
     return (
       <Box padding="spacingM">
-        <Note variant="primary">
+        <Note
+          variant={
+            status === "Failed"
+              ? "negative"
+              : status === "Cancelled"
+                ? "warning"
+                : "primary"
+          }
+        >
           <Stack spacing="spacingS">
             <Text fontWeight="fontWeightMedium">
-              {publishStatus.isScheduled
-                ? `Scheduled for ${new Date(
-                    publishStatus.scheduledTime || ""
-                  ).toLocaleString()}`
-                : "Publishing"}
+              {status === "Cancelled"
+                ? "Cancelled"
+                : status === "Failed"
+                  ? publishError
+                    ? "Stopped on an error"
+                    : publishStatus.isUnpublish
+                      ? "Roll back incomplete"
+                      : "Some items failed; the page was held back"
+                  : publishStatus.isScheduled
+                    ? `Scheduled for ${new Date(
+                        publishStatus.scheduledTime || ""
+                      ).toLocaleString()}`
+                    : publishStatus.isUnpublish
+                      ? "Unpublishing"
+                      : "Publishing"}
             </Text>
             <Text>
-              {publishStatus.isScheduled ? "Scheduled" : "Published"}:{" "}
-              {publishStatus.published}/{publishStatus.total}
+              {publishStatus.isScheduled
+                ? "Scheduled"
+                : publishStatus.isUnpublish
+                  ? "Unpublished"
+                  : "Published"}
+              : {publishStatus.published}/{publishStatus.total}
             </Text>
+            {publishStatus.locales && (
+              <Text>Locales: {publishStatus.locales.join(", ")}</Text>
+            )}
+            {!!publishStatus.scheduledActionIds?.length && (
+              <Text>
+                Scheduled actions created:{" "}
+                {publishStatus.scheduledActionIds.length}
+              </Text>
+            )}
+            {publishStatus.release && (
+              <TextLink
+                href={getReleaseUrl(publishStatus.release)}
+                target="_blank"
+                rel="noreferrer"
+              >
+                Release: {publishStatus.release.title}
+              </TextLink>
+            )}
             {publishStatus.errors > 0 && (
               <>
                 <Text fontColor="red900">Errors: {publishStatus.errors}</Text>
@@ -648,6 +1379,64 @@ const Sidebar = () => {
                 </List>
               </>
             )}
+            {publishError && (
+              <Text fontColor="red900">Error: {publishError}</Text>
+            )}
+            {status === "Publishing" && isCancellable && (
+              <Button
+                variant="secondary"
+                size="small"
+                onClick={handleCancelPublishing}
+              >
+                Cancel
+              </Button>
+            )}
+            {status === "Failed" && (
+              <Stack spacing="spacingS" flexWrap="wrap">
+                {failedRun && (
+                  <Button variant="primary" size="small" onClick={handleRetry}>
+                    Retry failed
+                  </Button>
+                )}
+                {!failedRun && remainingCount > 0 && (
+                  <Button variant="primary" size="small" onClick={handleResume}>
+                    Resume
+                  </Button>
+                )}
+                {failedRun && rollbackCount > 0 && !failedRun.scheduledTime && (
+                  <Button
+                    variant="negative"
+                    size="small"
+                    onClick={handleRollback}
+                  >
+                    Roll back this run ({rollbackCount})
+                  </Button>
+                )}
+                <Button
+                  variant="secondary"
+                  size="small"
+                  onClick={handleBackFromRun}
+                >
+                  Back
+                </Button>
+              </Stack>
+            )}
+            {status === "Cancelled" && (
+              <Stack spacing="spacingS">
+                {remainingCount > 0 && (
+                  <Button variant="primary" size="small" onClick={handleResume}>
+                    Resume
+                  </Button>
+                )}
+                <Button
+                  variant="secondary"
+                  size="small"
+                  onClick={handleBackFromRun}
+                >
+                  Back
+                </Button>
+              </Stack>
+            )}
           </Stack>
         </Note>
       </Box>
@@ -661,6 +1450,36 @@ const Sidebar = () => {
       </Box>
     );
   }
+  if (information && validationReview) {
+    return (
+      <ValidationReport
+        review={validationReview}
+        onConfirm={handleConfirmValidation}
+        onCancel={() => setValidationReview(undefined)}
+      />
+    );
+  }
+
+  if (information && showHistory) {
+    return (
+      <PublishHistory
+        entryId={sdk.entry.getSys().id}
+        onClose={() => setShowHistory(false)}
+      />
+    );
+  }
+
+  if (information && orphanReview) {
+    return (
+      <UnpublishReview
+        review={orphanReview}
+        archive={archiveOrphans}
+        onToggleArchive={() => setArchiveOrphans((prev) => !prev)}
+        onConfirm={handleUnpublish}
+        onCancel={() => setOrphanReview(undefined)}
+      />
+    );
+  }
   if (information) {
     const publishNeedCount =
       information.draftEntryCount +
@@ -668,10 +1487,124 @@ const Sidebar = () => {
       information.draftAssetCount +
       information.updatedAssetCount;
 
+    // Broken links don't make the rest any less in need of publishing.
+    // Archived linked entities can go out with the run once unarchived.
+    const blockingCount = countBlockingIssues(information);
+    const archivedCount = referenceProblems.filter(
+      (problem) => problem.kind === "archived"
+    ).length;
     const publishNeeded =
-      information.errorCount === 0 &&
-      (!information.published ||
-        (information.errorCount === 0 && publishNeedCount > 0));
+      !information.published || publishNeedCount > 0 || archivedCount > 0;
+
+    const selectedCount = selectedInformation
+      ? selectedInformation.draftEntryCount +
+        selectedInformation.updatedEntryCount +
+        selectedInformation.draftAssetCount +
+        selectedInformation.updatedAssetCount
+      : publishNeedCount;
+    const hasBrokenLinks = brokenLinks.length > 0 || blockingCount > 0;
+
+    const errorPanel = (
+      <ReferenceErrorPanel
+        problems={referenceProblems}
+        entries={information.entries}
+        root={{
+          id: sdk.entry.getSys().id,
+          contentTypeId: sdk.contentType.sys.id,
+        }}
+        onRemoveLink={handleRemoveLink}
+        unarchive={unarchiveLinked}
+        onToggleUnarchive={() => {
+          setUnarchiveLinked((prev) => !prev);
+          setUnarchiveError(undefined);
+        }}
+        unarchiveError={unarchiveError}
+      />
+    );
+
+    // Left over from a run that didn't finish and still pending
+    const resumable =
+      savedProgress && selectRemaining(information, savedProgress);
+    const resumableCount = resumable
+      ? resumable.draftEntryCount +
+        resumable.updatedEntryCount +
+        resumable.draftAssetCount +
+        resumable.updatedAssetCount
+      : 0;
+    const resumeNote = resumableCount > 0 && (
+      <Note variant="warning" style={{ width: "100%" }}>
+        <Stack
+          spacing="spacingS"
+          flexDirection="column"
+          alignItems="flex-start"
+        >
+          <Text>A previous publish run of this page didn't finish.</Text>
+          <Stack spacing="spacingS">
+            <Button variant="primary" size="small" onClick={handleResume}>
+              Resume publishing the remaining {resumableCount} item
+              {resumableCount === 1 ? "" : "s"}
+            </Button>
+            <Button
+              variant="secondary"
+              size="small"
+              onClick={handleDismissResume}
+            >
+              Dismiss
+            </Button>
+          </Stack>
+        </Stack>
+      </Note>
+    );
+
+    const refreshButton = (
+      <Button
+        onClick={handleRefresh}
+        variant="secondary"
+        size="small"
+        isLoading={isRevalidating}
+        isDisabled={isRevalidating}
+      >
+        {isRevalidating ? "Checking for changes..." : "Refresh"}
+      </Button>
+    );
+
+    const historyButton = isPublishLogEnabled(
+      sdk.parameters.installation as AppInstallationParameters
+    ) && (
+      <Button
+        onClick={() => setShowHistory(true)}
+        variant="transparent"
+        size="small"
+      >
+        History
+      </Button>
+    );
+
+    const unpublishButton = (
+      <Button onClick={handleReviewOrphans} variant="negative" size="small">
+        Unpublish page and orphans...
+      </Button>
+    );
+
+    const scheduledPanel = (
+      <ScheduledActionsPanel
+        actions={scheduledActions}
+        isBusy={scheduledActionsBusy}
+        error={scheduledActionsError}
+        onCancelAll={handleCancelScheduled}
+        onReschedule={handleReschedule}
+      />
+    );
+
+    const releaseLink = pageRelease && (
+      <TextLink
+        href={getReleaseUrl(pageRelease)}
+        target="_blank"
+        rel="noreferrer"
+      >
+        In release: {pageRelease.title}
+      </TextLink>
+    );
 
     return (
       <Box>
@@ -689,6 +1622,10 @@ const Sidebar = () => {
                 style={{ width: "100%" }}
               >
                 <Text fontWeight="fontWeightMedium">Schedule Publication</Text>
+                <BrokenLinkWarning
+                  information={information}
+                  brokenLinks={brokenLinks}
+                />
                 <Flex
                   flexDirection="column"
                   gap="spacingS"
@@ -705,13 +1642,25 @@ const Sidebar = () => {
                       width: "100%",
                     }}
                   />
+                  <Checkbox
+                    id="schedule-release"
+                    isChecked={useRelease}
+                    onChange={() => setUseRelease((prev) => !prev)}
+                    helpText={
+                      pageRelease
+                        ? `Adds everything to "${pageRelease.title}" and schedules that release`
+                        : "Collects everything into one release named after this entry and schedules that release"
+                    }
+                  >
+                    Schedule as a release
+                  </Checkbox>
                   <Stack spacing="spacingS">
                     <Button
                       variant="positive"
-                      onClick={handleScheduledPublish}
-                      isDisabled={!scheduledDate}
+                      onClick={() => handleValidate(true)}
+                      isDisabled={!scheduledDate || isRevalidating}
                     >
-                      Schedule Publish
+                      {hasBrokenLinks ? "Schedule anyway" : "Schedule Publish"}
                     </Button>
                     <Button variant="secondary" onClick={toggleScheduleOptions}>
                       Cancel
@@ -721,28 +1670,54 @@ const Sidebar = () => {
               </Stack>
             ) : (
               <>
+                {resumeNote}
                 {publishNeedCount > 0 && (
                   <Text>
                     {publishNeedCount} item
                     {`${publishNeedCount === 1 ? "" : "s"}`} need
                     {`${publishNeedCount === 1 ? "s" : ""}`} publishing
+                    {selectedCount < publishNeedCount &&
+                      ` (${selectedCount} selected)`}
                   </Text>
                 )}
+                <DependencyList
+                  information={information}
+                  excludedKeys={excludedKeys}
+                  onToggle={toggleExcluded}
+                  changes={pendingChanges}
+                />
+                {errorPanel}
+                <BrokenLinkWarning
+                  information={information}
+                  brokenLinks={brokenLinks}
+                />
+                <CycleWarning information={information} cycles={cycles} />
+                <LocaleReport coverage={localeCoverage} />
+                <StalenessReport stale={stale} onRepublish={handleRepublish} />
+                <ImpactSummary pages={impactedPages} />
+                {releaseLink}
+                {scheduledPanel}
+                {canPublishLocales(sdk.cma) && (
+                  <LocalePicker
+                    selected={selectedLocales}
+                    onChange={setSelectedLocales}
+                  />
+                )}
                 <Stack spacing="spacingS">
-                  <Button variant="primary" onClick={handlePublish}>
-                    Publish Now
+                  <Button
+                    variant="primary"
+                    onClick={() => handleValidate(false)}
+                    isDisabled={isRevalidating || selectedLocales?.length === 0}
+                  >
+                    {hasBrokenLinks ? "Publish anyway" : "Publish Now"}
                   </Button>
                   <Button variant="secondary" onClick={toggleScheduleOptions}>
                     Schedule...
                   </Button>
                 </Stack>
-                <Button
-                  onClick={handleRefresh}
-                  variant="secondary"
-                  size="small"
-                >
-                  Refresh
-                </Button>
+                {refreshButton}
+                {historyButton}
+                {unpublishButton}
               </>
             )}
           </Stack>
@@ -753,10 +1728,18 @@ const Sidebar = () => {
               flexDirection="column"
               alignItems="flex-start"
             >
-              <Note variant="positive">All up to date</Note>
-              <Button onClick={handleRefresh} variant="secondary" size="small">
-                Refresh
-              </Button>
+              {blockingCount === 0 ? (
+                <Note variant="positive">All up to date</Note>
+              ) : (
+                errorPanel
+              )}
+              <DependencyList information={information} />
+              <LocaleReport coverage={localeCoverage} />
+              {releaseLink}
+              {scheduledPanel}
+              {refreshButton}
+              {historyButton}
+              {unpublishButton}
             </Stack>
           </Box>
         )}
@@ -0,0 +1,423 @@
+import {
+  AssetProps,
+  BulkActionProps,
+  BulkActionPublishPayload,
+  EntityMetaSysProps,
+  EntryProps,
+  KeyValueMap,
+  ScheduledActionProps,
+} from 'contentful-management';
+import {
+  EntryReferenceError,
+  EntryReferenceProps,
+} from 'contentful-management/dist/typings/entities/entry';
+import { IContentClient, IEntitySys } from '../../src/lib/client';
+import { collectLinks } from '../../src/lib/links';
+
+type Entity = EntryProps<KeyValueMap> | AssetProps;
+type LinkType = 'Entry' | 'Asset';
+
+export type FakeState = 'draft' | 'published' | 'changed' | 'archived';
+
+export interface IFakeEntryOptions {
+  contentType?: string;
+  state?: FakeState;
+  // Field ID to the entities it links to
+  links?: Record<string, { linkType: LinkType; id: string }[]>;
+  // Rich text field ID to the entries embedded in it
+  richText?: Record<string, string[]>;
+  publishedAt?: string;
+}
+
+export const FAKE_LOCALE = 'en-US';
+export const FAKE_USER = 'fake-user';
+
+const link = (linkType: string, id: string) => ({
+  sys: { type: 'Link', linkType, id },
+});
+
+const key = (type: string, id: string) => `${type}:${id}`;
+
+// Versions the way the CMA counts them: publishing bumps the version once
+// more, so a published entity that wasn't touched since is one ahead
+function versionsFor(state: FakeState) {
+  switch (state) {
+    case 'draft':
+      return { version: 1 };
+    case 'published':
+      return { version: 2, publishedVersion: 1 };
+    case 'changed':
+      return { version: 3, publishedVersion: 1 };
+    case 'archived':
+      return { version: 2, archivedVersion: 1 };
+  }
+}
+
+// An in-memory Contentful environment behind the app's client interface.
+// Every call is recorded so tests can check what was published, in which
+// order and how.
+export class FakeSpace implements IContentClient {
+  entries = new Map<string, EntryProps<KeyValueMap>>();
+  assets = new Map<string, AssetProps>();
+  // Entity keys ("Entry:id") whose publish the API rejects
+  failing = new Set<string>();
+  // Entity keys the references request can't resolve although they exist,
+  // like entries outside the user's role
+  restricted = new Set<string>();
+  // Entity keys the references response leaves out without reporting an
+  // error for them
+  omitted = new Set<string>();
+  // Whether references responses include archived entities instead of
+  // reporting them as unresolvable links
+  archivedIncluded = false;
+  // Entry IDs whose references request errors out
+  brokenReferences = new Set<string>();
+  // Errors thrown by the next references requests for an entry, one per
+  // request, before it goes through
+  referenceFailures = new Map<string, unknown[]>();
+  bulkActionsEnabled = true;
+
+  referenceRequests: string[] = [];
+  versionRequests = 0;
+  // Highest number of references requests in flight at the same time
+  maxConcurrentRequests = 0;
+  private concurrentRequests = 0;
+  published: string[] = [];
+  // IDs of entries saved through `updateEntry`
+  updated: string[] = [];
+  // Entity keys unarchived through `unarchive`
+  unarchived: string[] = [];
+  // Entity keys unpublished through `unpublish`, in order
+  unpublished: string[] = [];
+  // Entity keys archived through `archive`, in order
+  archived: string[] = [];
+  // Locales each entity was published for, when published locale by locale
+  publishedLocales = new Map<string, string[]>();
+  bulkActions: BulkActionProps<BulkActionPublishPayload>[] = [];
+  scheduledActions: ScheduledActionProps[] = [];
+
+  private now = Date.parse('2024-01-01T00:00:00Z');
+
+  private makeSys(type: LinkType, id: string, state: FakeState) {
+    return {
+      type,
+      id,
+      ...versionsFor(state),
+      publishedAt:
+        state === 'draft' || state === 'archived'
+          ? undefined
+          : new Date(this.now).toISOString(),
+      publishedBy:
+        state === 'draft' || state === 'archived'
+          ? undefined
+          : link('User', FAKE_USER),
+      createdAt: new Date(this.now).toISOString(),
+      updatedAt: new Date(this.now).toISOString(),
+      space: link('Space', 'fake-space'),
+      environment: link('Environment', 'master'),
+    };
+  }
+
+  addEntry(id: string, options: IFakeEntryOptions = {}) {
+    const { contentType = 'component', state = 'draft', links = {} } = options;
+    const fields: KeyValueMap = { title: { [FAKE_LOCALE]: id } };
+    for (const [fieldId, targets] of Object.entries(links)) {
+      fields[fieldId] = {
+        [FAKE_LOCALE]: targets.map(({ linkType, id }) => link(linkType, id)),
+      };
+    }
+    for (const [fieldId, ids] of Object.entries(options.richText ?? {})) {
+      fields[fieldId] = {
+        [FAKE_LOCALE]: {
+          nodeType: 'document',
+          data: {},
+          content: ids.map((id) => ({
+            nodeType: 'embedded-entry-block',
+            data: { target: link('Entry', id) },
+            content: [],
+          })),
+        },
+      };
+    }
+    const sys = {
+      ...this.makeSys('Entry', id, state),
+      contentType: link('ContentType', contentType),
+    };
+    if (options.publishedAt) {
+      sys.publishedAt = options.publishedAt;
+    }
+    const entry = { sys, fields } as unknown as EntryProps<KeyValueMap>;
+    this.entries.set(id, entry);
+    return entry;
+  }
+
+  addAsset(id: string, state: FakeState = 'draft') {
+    const asset = {
+      sys: this.makeSys('Asset', id, state),
+      fields: { title: { [FAKE_LOCALE]: id }, file: {} },
+    } as unknown as AssetProps;
+    this.assets.set(id, asset);
+    return asset;
+  }
+
+  // Save a change to an entry, optionally replacing some of its links
+  editEntry(id: string, links: IFakeEntryOptions['links'] = {}) {
+    const entry = this.entries.get(id)!;
+    for (const [fieldId, targets] of Object.entries(links)) {
+      entry.fields[fieldId] = {
+        [FAKE_LOCALE]: targets.map(({ linkType, id }) => link(linkType, id)),
+      };
+    }
+    entry.sys.version++;
+    return entry;
+  }
+
+  private find(linkType: string, id: string): Entity | undefined {
+    return linkType === 'Asset' ? this.assets.get(id) : this.entries.get(id);
+  }
+
+  private markPublished(entity: Entity, locales?: string[]) {
+    this.now += 1000;
+    entity.sys.publishedVersion = entity.sys.version;
+    entity.sys.version++;
+    entity.sys.publishedAt = new Date(this.now).toISOString();
+    entity.sys.publishedBy = link(
+      'User',
+      FAKE_USER
+    ) as EntityMetaSysProps['publishedBy'];
+    this.published.push(key(entity.sys.type, entity.sys.id));
+    if (locales) {
+      this.publishedLocales.set(key(entity.sys.type, entity.sys.id), locales);
+    }
+  }
+
+  private checkPublishable(entity: Entity) {
+    if (this.failing.has(key(entity.sys.type, entity.sys.id))) {
+      throw new Error(`Validation failed for ${entity.sys.id}`);
+    }
+  }
+
+  async getEntry(entryId: string) {
+    const entry = this.entries.get(entryId);
+    if (!entry) {
+      throw Object.assign(new Error(`Entry ${entryId} not found`), {
+        status: 404,
+      });
+    }
+    return structuredClone(entry);
+  }
+
+  async getReferences(entryId: string): Promise<EntryReferenceProps> {
+    this.referenceRequests.push(entryId);
+    this.concurrentRequests++;
+    this.maxConcurrentRequests = Math.max(
+      this.maxConcurrentRequests,
+      this.concurrentRequests
+    );
+    // Let other requests start before this one answers
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    this.concurrentRequests--;
+
+    const failure = this.referenceFailures.get(entryId)?.shift();
+    if (failure) {
+      throw failure;
+    }
+    const entry = this.entries.get(entryId);
+    if (!entry || this.brokenReferences.has(entryId)) {
+      throw Object.assign(
+        new Error(`Could not load references of ${entryId}`),
+        {
+          status: 404,
+        }
+      );
+    }
+
+    const included = { Entry: [] as Entity[], Asset: [] as Entity[] };
+    const errors: EntryReferenceError[] = [];
+    for (const values of Object.values(entry.fields)) {
+      const targets: { linkType: LinkType; id: string }[] = [];
+      collectLinks(values[FAKE_LOCALE], targets);
+      for (const { linkType, id } of targets) {
+        const entity = this.find(linkType, id);
+        if (this.omitted.has(key(linkType, id))) {
+          continue;
+        }
+        if (
+          entity &&
+          (this.archivedIncluded || !entity.sys.archivedVersion) &&
+          !this.restricted.has(key(linkType, id))
+        ) {
+          included[linkType].push(entity);
+        } else {
+          errors.push({
+            sys: { type: 'error', id: 'notResolvable' },
+            details: { type: 'Link', linkType, id },
+          } as EntryReferenceError);
+        }
+      }
+    }
+
+    // Copies, like a response over the wire, so later changes to the space
+    // don't show up in earlier results
+    return structuredClone({
+      sys: { type: 'Array' },
+      items: [entry],
+      includes: {
+        Entry: included.Entry as EntryProps<KeyValueMap>[],
+        Asset: included.Asset as AssetProps[],
+      },
+      errors: errors.length > 0 ? errors : undefined,
+    }) as unknown as EntryReferenceProps;
+  }
+
+  async getVersions(links: { linkType: LinkType; id: string }[]) {
+    this.versionRequests++;
+    const versions = new Map<string, number>();
+    for (const { linkType, id } of links) {
+      const entity = this.find(linkType, id);
+      if (entity) {
+        versions.set(key(linkType, id), entity.sys.version);
+      }
+    }
+    return versions;
+  }
+
+  async getEntitySys(links: { linkType: LinkType; id: string }[]) {
+    const found = new Map<string, IEntitySys>();
+    for (const { linkType, id } of links) {
+      const entity = this.find(linkType, id);
+      if (entity) {
+        found.set(key(linkType, id), structuredClone(entity.sys));
+      }
+    }
+    return found;
+  }
+
+  async updateEntry(entry: EntryProps<KeyValueMap>) {
+    const stored = this.entries.get(entry.sys.id)!;
+    if (entry.sys.version !== stored.sys.version) {
+      throw Object.assign(new Error(`Version mismatch for ${entry.sys.id}`), {
+        status: 409,
+      });
+    }
+    stored.fields = structuredClone(entry.fields);
+    stored.sys.version++;
+    this.updated.push(entry.sys.id);
+    return structuredClone(stored);
+  }
+
+  async unarchive({ linkType, id }: { linkType: LinkType; id: string }) {
+    const entity = this.find(linkType, id)!;
+    if (!entity.sys.archivedVersion) {
+      throw Object.assign(new Error(`${id} is not archived`), {
+        status: 400,
+      });
+    }
+    delete entity.sys.archivedVersion;
+    entity.sys.version++;
+    this.unarchived.push(key(linkType, id));
+    return structuredClone(entity);
+  }
+
+  async unpublish({ linkType, id }: { linkType: LinkType; id: string }) {
+    const entity = this.find(linkType, id)!;
+    if (!entity.sys.publishedVersion) {
+      throw Object.assign(new Error(`${id} is not published`), {
+        status: 400,
+      });
+    }
+    delete entity.sys.publishedVersion;
+    delete entity.sys.publishedAt;
+    entity.sys.version++;
+    this.unpublished.push(key(linkType, id));
+    return structuredClone(entity);
+  }
+
+  async archive({ linkType, id }: { linkType: LinkType; id: string }) {
+    const entity = this.find(linkType, id)!;
+    if (entity.sys.publishedVersion) {
+      throw Object.assign(new Error(`${id} is published`), {
+        status: 400,
+      });
+    }
+    entity.sys.archivedVersion = entity.sys.version;
+    entity.sys.version++;
+    this.archived.push(key(linkType, id));
+    return structuredClone(entity);
+  }
+
+  async publishEntry(entry: EntryProps<KeyValueMap>, locales?: string[]) {
+    const stored = this.entries.get(entry.sys.id)!;
+    this.checkPublishable(stored);
+    this.markPublished(stored, locales);
+    return stored;
+  }
+
+  async publishAsset(asset: AssetProps, locales?: string[]) {
+    const stored = this.assets.get(asset.sys.id)!;
+    this.checkPublishable(stored);
+    this.markPublished(stored, locales);
+    return stored;
+  }
+
+  async schedulePublish(sys: IEntitySys, scheduledTime: string) {
+    const action = {
+      sys: { id: `action-${this.scheduledActions.length + 1}` },
+      entity: link(sys.type, sys.id),
+      action: 'publish',
+      scheduledFor: { datetime: new Date(scheduledTime).toISOString() },
+    } as unknown as ScheduledActionProps;
+    this.scheduledActions.push(action);
+    return action;
+  }
+
+  // Bulk actions finish straight away. Like the real API, one failing
+  // item fails the whole action and nothing in it gets published.
+  async createBulkPublish(entities: Entity[]) {
+    if (!this.bulkActionsEnabled) {
+      throw new Error('Bulk actions are not enabled in this space');
+    }
+    const failed = entities.filter((entity) =>
+      this.failing.has(key(entity.sys.type, entity.sys.id))
+    );
+    if (failed.length === 0) {
+      entities.forEach((entity) =>
+        this.markPublished(this.find(entity.sys.type, entity.sys.id)!)
+      );
+    }
+    const bulkAction = {
+      sys: {
+        id: `bulk-${this.bulkActions.length + 1}`,
+        status: failed.length === 0 ? 'succeeded' : 'failed',
+        space: link('Space', 'fake-space'),
+        environment: link('Environment', 'master'),
+      },
+      payload: {
+        entities: {
+          sys: { type: 'Array' },
+          items: entities.map((entity) => link(entity.sys.type, entity.sys.id)),
+        },
+      },
+      error:
+        failed.length === 0
+          ? undefined
+          : {
+              sys: { type: 'Error', id: 'BulkActionFailed' },
+              details: {
+                errors: failed.map((entity) => ({
+                  entity: link(entity.sys.type, entity.sys.id),
+                  error: { sys: { type: 'Error', id: 'InvalidEntry' } },
+                })),
+              },
+            },
+    } as unknown as BulkActionProps<BulkActionPublishPayload>;
+    this.bulkActions.push(bulkAction);
+    return bulkAction;
+  }
+
+  async getBulkAction(bulkAction: BulkActionProps<BulkActionPublishPayload>) {
+    return this.bulkActions.find(
+      (action) => action.sys.id === bulkAction.sys.id
+    )!;
+  }
+}
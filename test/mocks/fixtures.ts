@@ -0,0 +1,33 @@
+import { FakeSpace, FakeState, IFakeEntryOptions } from './fakeSpace';
+
+// The content of a fixture space. Entities are added in the order given.
+export interface IFakeSpaceLayout {
+  // Asset ID to its state
+  assets?: Record<string, FakeState>;
+  entries?: Record<string, IFakeEntryOptions>;
+  // Entity keys ("Entry:id") the references request can't resolve
+  restricted?: string[];
+}
+
+// A new FakeSpace holding the layout, so every test starts from scratch
+export function createSpace({
+  assets = {},
+  entries = {},
+  restricted = [],
+}: IFakeSpaceLayout) {
+  const space = new FakeSpace();
+  for (const [id, state] of Object.entries(assets)) {
+    space.addAsset(id, state);
+  }
+  for (const [id, options] of Object.entries(entries)) {
+    space.addEntry(id, options);
+  }
+  for (const key of restricted) {
+    space.restricted.add(key);
+  }
+  return space;
+}
+
+// Sorted IDs, for comparing lists of entities regardless of order
+export const ids = (entities: { sys: { id: string } }[]) =>
+  entities.map((entity) => entity.sys.id).sort();
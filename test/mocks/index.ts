@@ -1,2 +1,5 @@
+export { FAKE_LOCALE, FAKE_USER, FakeSpace } from './fakeSpace';
+export { createSpace, ids } from './fixtures';
+export type { IFakeSpaceLayout } from './fixtures';
 export { mockCma } from './mockCma';
 export { mockSdk } from './mockSdk';